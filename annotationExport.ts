@@ -0,0 +1,227 @@
+import { Book } from './libraryManager';
+import { EpubContent } from './epubParser';
+import { ReadingState, Highlight, Note } from './readerView';
+import { compareCfi } from './epubCfi';
+
+// Markers around the part of a literature note that is rewritten on every export
+export const MANAGED_SECTION_START = '%% ebook-reader: annotations start %%';
+export const MANAGED_SECTION_END = '%% ebook-reader: annotations end %%';
+
+export const DEFAULT_EXPORT_TEMPLATE = `## Highlights and Notes
+
+{{#chapters}}
+### {{title}}
+
+{{#highlights}}
+> {{text}}
+
+- Color: {{color}}, {{date}}
+{{#notes}}
+- Note: {{text}} {{tags}}
+{{/notes}}
+
+{{/highlights}}
+{{#notes}}
+- **Note**{{#quote}} on "{{quote}}"{{/quote}}: {{text}} {{tags}}
+
+{{/notes}}
+{{/chapters}}
+{{#bookmarks.length}}
+## Bookmarks
+
+{{#bookmarks}}
+- {{title}} ({{chapter}}, {{date}})
+{{/bookmarks}}
+{{/bookmarks.length}}
+`;
+
+type TemplateValue = string | number | boolean | undefined | TemplateData | TemplateValue[];
+
+export interface TemplateData {
+    [key: string]: TemplateValue;
+}
+
+/**
+ * Render a template with {{name}} variables, {{#name}}...{{/name}} sections that repeat for lists
+ * or show when a value is set, and {{^name}}...{{/name}} sections that show when it is not.
+ * Values of several lines, such as notes, are indented to stay inside the list item or quote they are in.
+ */
+export function renderTemplate(template: string, data: TemplateData): string {
+    // Section tags on lines of their own leave no blank line behind
+    const trimmed = template.replace(/^[ \t]*(\{\{[#^/][\w.]+\}\})[ \t]*\r?\n/gm, '$1');
+    return renderSection(trimmed, [data]);
+}
+
+/**
+ * The data a template is rendered with: the book's details, and its annotations by chapter in reading order
+ */
+export function buildExportData(book: Book, state: ReadingState, epubContent: EpubContent | null): TemplateData {
+    const spine = epubContent?.spine.items || [];
+    const chapterIds = Array.from(new Set([...state.highlights, ...state.notes].map(annotation => annotation.chapterId)))
+        .sort((a, b) => spine.indexOf(a) - spine.indexOf(b));
+    const getChapterTitle = (itemId: string) => epubContent?.getChapterLabel(itemId) || `Chapter ${spine.indexOf(itemId) + 1}`;
+
+    const highlightIds = new Set(state.highlights.map(highlight => highlight.id));
+    const chapters = chapterIds.map(chapterId => ({
+        title: getChapterTitle(chapterId),
+        highlights: state.highlights
+            .filter(highlight => highlight.chapterId === chapterId)
+            .sort(compareHighlights)
+            .map(highlight => ({
+                text: collapseWhitespace(highlight.text),
+                color: highlight.color,
+                date: formatIsoDate(highlight.createdAt),
+                notes: state.notes.filter(note => note.associatedHighlightId === highlight.id).map(formatNote)
+            })),
+        notes: state.notes
+            .filter(note => note.chapterId === chapterId && !(note.associatedHighlightId && highlightIds.has(note.associatedHighlightId)))
+            .sort((a, b) => (a.cfi && b.cfi ? compareCfi(a.cfi, b.cfi) : a.position - b.position) || a.createdAt - b.createdAt)
+            .map(formatNote)
+    }));
+
+    return {
+        title: book.title,
+        author: book.author,
+        series: book.series,
+        seriesIndex: book.seriesIndex,
+        isbn: book.isbn,
+        publisher: book.publisher,
+        progress: book.progress,
+        added: formatIsoDate(book.addedDate),
+        lastOpened: book.lastOpenedDate ? formatIsoDate(book.lastOpenedDate) : undefined,
+        exported: formatIsoDate(Date.now()),
+        highlightCount: state.highlights.length,
+        noteCount: state.notes.length,
+        chapters,
+        bookmarks: [...state.bookmarks]
+            .sort((a, b) => spine.indexOf(a.chapterId) - spine.indexOf(b.chapterId) || a.position - b.position)
+            .map(bookmark => ({
+                title: bookmark.title,
+                chapter: getChapterTitle(bookmark.chapterId),
+                date: formatIsoDate(bookmark.createdAt)
+            }))
+    };
+}
+
+/**
+ * Frontmatter properties describing a book
+ */
+export function getBookFrontmatter(book: Book): Record<string, string | number | string[]> {
+    const frontmatter: Record<string, string | number | string[]> = {
+        title: book.title,
+        author: book.author
+    };
+    if (book.series) frontmatter.series = book.series;
+    if (book.seriesIndex !== undefined) frontmatter.series_index = book.seriesIndex;
+    if (book.isbn) frontmatter.isbn = book.isbn;
+    if (book.publisher) frontmatter.publisher = book.publisher;
+    if (book.publishDate) frontmatter.published = book.publishDate;
+    frontmatter.progress = book.progress;
+    frontmatter.added = formatIsoDate(book.addedDate);
+    if (book.lastOpenedDate) frontmatter.last_opened = formatIsoDate(book.lastOpenedDate);
+    return frontmatter;
+}
+
+/**
+ * Put the exported annotations into a note's managed section, leaving the rest of the note alone.
+ * Notes without the section get it added at the end.
+ */
+export function updateManagedSection(content: string, section: string): string {
+    const managed = `${MANAGED_SECTION_START}\n${section.trim()}\n${MANAGED_SECTION_END}`;
+
+    const start = content.indexOf(MANAGED_SECTION_START);
+    const end = content.indexOf(MANAGED_SECTION_END, start);
+    if (start !== -1 && end !== -1) {
+        return content.substring(0, start) + managed + content.substring(end + MANAGED_SECTION_END.length);
+    }
+
+    const existing = content.trimEnd();
+    return existing ? `${existing}\n\n${managed}\n` : `${managed}\n`;
+}
+
+function renderSection(template: string, stack: TemplateData[]): string {
+    // Sections and variables are replaced in one pass so braces in the book's text are left as they are
+    const pattern = /\{\{([#^])([\w.]+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{([\w.]+)\}\}/g;
+
+    return template.replace(pattern, (match, type: string, sectionName: string, inner: string, variableName: string, offset: number) => {
+        if (variableName) {
+            const value = lookup(stack, variableName);
+            if (value === undefined || value === null || typeof value === 'object') return '';
+
+            const linePrefix = template.substring(template.lastIndexOf('\n', offset - 1) + 1, offset);
+            return indentContinuation(String(value), linePrefix);
+        }
+
+        const value = lookup(stack, sectionName);
+        const isSet = Array.isArray(value) ? value.length > 0 : !!value;
+        if (type === '^') {
+            return isSet ? '' : renderSection(inner, stack);
+        }
+        if (!isSet) return '';
+
+        if (Array.isArray(value)) {
+            return value.map(item => renderSection(inner, isData(item) ? [item, ...stack] : stack)).join('');
+        }
+        return renderSection(inner, isData(value) ? [value, ...stack] : stack);
+    });
+}
+
+// Find a possibly dotted name in the innermost context that has it
+function lookup(stack: TemplateData[], name: string): TemplateValue {
+    const [first, ...rest] = name.split('.');
+    const context = stack.find(data => data[first] !== undefined);
+    let value: TemplateValue = context?.[first];
+
+    for (const key of rest) {
+        if (Array.isArray(value) && key === 'length') {
+            value = value.length;
+        } else {
+            value = isData(value) ? value[key] : undefined;
+        }
+    }
+    return value;
+}
+
+// Prefix the second and later lines of a value with what keeps them in the Markdown block of the line
+// it starts on: the quote markers, and spaces in place of a list marker
+function indentContinuation(value: string, linePrefix: string): string {
+    const lines = value.split('\n');
+    if (lines.length === 1) return value;
+
+    const match = linePrefix.match(/^([ \t]*(?:>[ \t]?)*)([ \t]*(?:[-*+]|\d+[.)])[ \t]+)?/);
+    const prefix = (match?.[1] || '') + ' '.repeat(match?.[2]?.length || 0);
+    if (!prefix) return value;
+
+    // Blank lines keep the quote markers but no trailing spaces
+    const blankPrefix = prefix.replace(/[ \t]+$/, '');
+    return lines.map((line, index) => index === 0 ? line : line.trim() ? prefix + line : blankPrefix).join('\n');
+}
+
+function isData(value: TemplateValue): value is TemplateData {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatNote(note: Note): TemplateData {
+    return {
+        text: note.text,
+        quote: note.quote ? collapseWhitespace(note.quote) : undefined,
+        tags: (note.tags || []).map(tag => `#${tag}`).join(' '),
+        date: formatIsoDate(note.createdAt)
+    };
+}
+
+function compareHighlights(a: Highlight, b: Highlight): number {
+    if (a.cfi && b.cfi) return compareCfi(a.cfi, b.cfi);
+    return a.startOffset - b.startOffset || a.createdAt - b.createdAt;
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// Dates as YYYY-MM-DD in local time, which Obsidian recognizes as date properties
+function formatIsoDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => `0${value}`.slice(-2);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,314 @@
+import { AbstractInputSuggest, App, Component, MarkdownRenderer, Modal, TFile, debounce, getAllTags } from 'obsidian';
+
+// Number of notes offered while a wikilink is typed
+const MAX_LINK_SUGGESTIONS = 8;
+
+export interface NoteEditorOptions {
+    title: string;
+    quote?: string; // Book text the note is about, shown above the editor
+    text: string;
+    tags: string[];
+    onSave: (text: string, tags: string[]) => void;
+}
+
+/**
+ * Modal for writing a note in Markdown, with wikilink suggestions, tags and a live preview
+ */
+export class NoteEditorModal extends Modal {
+    private options: NoteEditorOptions;
+    private component: Component = new Component();
+
+    constructor(app: App, options: NoteEditorOptions) {
+        super(app);
+        this.options = options;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('ebook-note-modal');
+        this.titleEl.setText(this.options.title);
+        this.component.load();
+
+        if (this.options.quote) {
+            contentEl.createEl('blockquote', { cls: 'ebook-note-quote', text: this.options.quote });
+        }
+
+        const editorEl = contentEl.createDiv({ cls: 'ebook-note-editor' });
+        const textarea = editorEl.createEl('textarea', {
+            cls: 'ebook-note-textarea',
+            attr: { placeholder: 'Write your note in Markdown. Type [[ to link a note.' }
+        });
+        textarea.value = this.options.text;
+        new WikilinkSuggest(this.app, textarea, editorEl);
+
+        const tagsInput = contentEl.createEl('input', {
+            cls: 'ebook-note-tags',
+            type: 'text',
+            attr: { placeholder: 'Tags, separated by spaces' }
+        });
+        tagsInput.value = this.options.tags.map(tag => `#${tag}`).join(' ');
+        new TagSuggest(this.app, tagsInput);
+
+        // Live preview of the note as it will be shown
+        contentEl.createDiv({ cls: 'ebook-note-preview-label', text: 'Preview' });
+        const previewEl = contentEl.createDiv({ cls: 'ebook-note-preview' });
+        const renderPreview = () => {
+            previewEl.empty();
+            MarkdownRenderer.render(this.app, textarea.value, previewEl, '', this.component);
+        };
+        const schedulePreview = debounce(renderPreview, 300, true);
+        textarea.addEventListener('input', () => schedulePreview());
+        renderPreview();
+
+        const save = () => {
+            this.options.onSave(textarea.value.trim(), parseTags(tagsInput.value));
+            this.close();
+        };
+
+        // Ctrl/Cmd+Enter saves, as plain Enter starts a new line
+        textarea.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter' && (evt.ctrlKey || evt.metaKey)) {
+                evt.preventDefault();
+                save();
+            }
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'ebook-note-buttons' });
+        buttonContainer.createEl('button', {
+            text: 'Save',
+            cls: 'mod-cta'
+        }).addEventListener('click', save);
+
+        buttonContainer.createEl('button', {
+            text: 'Cancel'
+        }).addEventListener('click', () => {
+            this.close();
+        });
+
+        textarea.focus();
+    }
+
+    onClose() {
+        this.component.unload();
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Modal asking for the title of a new bookmark
+ */
+export class BookmarkModal extends Modal {
+    private defaultTitle: string;
+    private onSave: (title: string) => void;
+
+    constructor(app: App, defaultTitle: string, onSave: (title: string) => void) {
+        super(app);
+        this.defaultTitle = defaultTitle;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Add Bookmark');
+
+        const input = contentEl.createEl('input', { cls: 'ebook-bookmark-title', type: 'text' });
+        input.value = this.defaultTitle;
+
+        const save = () => {
+            const title = input.value.trim();
+            if (!title) return;
+            this.onSave(title);
+            this.close();
+        };
+        input.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter') {
+                evt.preventDefault();
+                save();
+            }
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'ebook-note-buttons' });
+        buttonContainer.createEl('button', {
+            text: 'Save',
+            cls: 'mod-cta'
+        }).addEventListener('click', save);
+
+        buttonContainer.createEl('button', {
+            text: 'Cancel'
+        }).addEventListener('click', () => {
+            this.close();
+        });
+
+        input.select();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/**
+ * Render a note's Markdown and its tags into an element
+ */
+export async function renderNote(app: App, text: string, tags: string[] | undefined, el: HTMLElement, component: Component) {
+    await MarkdownRenderer.render(app, text, el.createDiv({ cls: 'ebook-note-content' }), '', component);
+
+    if (tags && tags.length > 0) {
+        const tagsEl = el.createDiv({ cls: 'ebook-note-tag-list' });
+        tags.forEach(tag => tagsEl.createSpan({ cls: 'tag', text: `#${tag}` }));
+    }
+}
+
+// Tags typed as "#a #b" or "a, b", without the leading #
+function parseTags(value: string): string[] {
+    const tags = value.split(/[\s,]+/)
+        .map(tag => tag.replace(/^#/, ''))
+        .filter(tag => tag.length > 0);
+    return Array.from(new Set(tags));
+}
+
+/**
+ * Suggests vault notes while a [[wikilink]] is typed in a text area
+ */
+export class WikilinkSuggest {
+    private app: App;
+    private textarea: HTMLTextAreaElement;
+    private suggestionsEl: HTMLElement;
+    private files: TFile[] = [];
+    private selected: number = 0;
+
+    constructor(app: App, textarea: HTMLTextAreaElement, containerEl: HTMLElement) {
+        this.app = app;
+        this.textarea = textarea;
+        containerEl.addClass('ebook-wikilink-container');
+        this.suggestionsEl = containerEl.createDiv({ cls: 'ebook-wikilink-suggestions' });
+        this.suggestionsEl.hide();
+
+        textarea.addEventListener('input', () => this.update());
+        textarea.addEventListener('keydown', (evt: KeyboardEvent) => this.handleKeydown(evt));
+        textarea.addEventListener('blur', () => this.close());
+    }
+
+    // The text typed after an unclosed [[ before the cursor
+    private getQuery(): { start: number; query: string } | null {
+        const before = this.textarea.value.substring(0, this.textarea.selectionStart);
+        const match = before.match(/\[\[([^[\]|#\n]*)$/);
+        return match ? { start: before.length - match[1].length, query: match[1] } : null;
+    }
+
+    private update() {
+        const query = this.getQuery();
+        if (!query) {
+            this.close();
+            return;
+        }
+
+        const search = query.query.toLowerCase();
+        this.files = this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.toLowerCase().includes(search))
+            .sort((a, b) => Number(!a.basename.toLowerCase().startsWith(search)) - Number(!b.basename.toLowerCase().startsWith(search)) ||
+                a.basename.localeCompare(b.basename))
+            .slice(0, MAX_LINK_SUGGESTIONS);
+        this.selected = 0;
+        this.render();
+    }
+
+    private render() {
+        this.suggestionsEl.empty();
+        this.suggestionsEl.toggle(this.files.length > 0);
+
+        this.files.forEach((file, index) => {
+            const itemEl = this.suggestionsEl.createDiv({ cls: 'suggestion-item', text: file.basename });
+            itemEl.toggleClass('is-selected', index === this.selected);
+            if (file.parent && !file.parent.isRoot()) {
+                itemEl.createSpan({ cls: 'ebook-wikilink-path', text: file.parent.path });
+            }
+
+            // Keep the focus in the text area while choosing
+            itemEl.addEventListener('mousedown', (evt: MouseEvent) => {
+                evt.preventDefault();
+                this.choose(file);
+            });
+        });
+    }
+
+    private handleKeydown(evt: KeyboardEvent) {
+        if (this.files.length === 0 || !this.suggestionsEl.isShown()) return;
+
+        if (evt.key === 'ArrowDown' || evt.key === 'ArrowUp') {
+            const step = evt.key === 'ArrowDown' ? 1 : -1;
+            this.selected = (this.selected + step + this.files.length) % this.files.length;
+            this.render();
+        } else if (evt.key === 'Enter' || evt.key === 'Tab') {
+            this.choose(this.files[this.selected]);
+        } else if (evt.key === 'Escape') {
+            this.close();
+        } else {
+            return;
+        }
+        evt.preventDefault();
+        evt.stopPropagation();
+    }
+
+    private choose(file: TFile) {
+        const query = this.getQuery();
+        if (!query) return;
+
+        const value = this.textarea.value;
+        const cursor = this.textarea.selectionStart;
+        const after = value.substring(cursor);
+        const link = this.app.metadataCache.fileToLinktext(file, '', true);
+        const closing = after.startsWith(']]') ? '' : ']]';
+
+        this.textarea.value = value.substring(0, query.start) + link + closing + after;
+        const position = query.start + link.length + 2;
+        this.textarea.setSelectionRange(position, position);
+        this.textarea.dispatchEvent(new Event('input'));
+        this.close();
+    }
+
+    private close() {
+        this.files = [];
+        this.suggestionsEl.empty();
+        this.suggestionsEl.hide();
+    }
+}
+
+// Suggests the vault's existing tags for the last tag being typed
+class TagSuggest extends AbstractInputSuggest<string> {
+    private inputEl: HTMLInputElement;
+
+    constructor(app: App, inputEl: HTMLInputElement) {
+        super(app, inputEl);
+        this.inputEl = inputEl;
+    }
+
+    protected getSuggestions(query: string): string[] {
+        const current = (query.split(/[\s,]+/).pop() || '').replace(/^#/, '').toLowerCase();
+        if (!current) return [];
+
+        const tags = new Set<string>();
+        this.app.vault.getMarkdownFiles().forEach(file => {
+            const cache = this.app.metadataCache.getFileCache(file);
+            (cache ? getAllTags(cache) || [] : []).forEach(tag => tags.add(tag.replace(/^#/, '')));
+        });
+
+        return Array.from(tags)
+            .filter(tag => tag.toLowerCase().includes(current))
+            .sort()
+            .slice(0, MAX_LINK_SUGGESTIONS);
+    }
+
+    renderSuggestion(tag: string, el: HTMLElement) {
+        el.setText(`#${tag}`);
+    }
+
+    selectSuggestion(tag: string) {
+        // Replace the tag being typed, keeping the ones before it
+        const value = this.inputEl.value;
+        const start = value.search(/[^\s,]*$/);
+        this.setValue(`${value.substring(0, start)}#${tag} `);
+        this.inputEl.focus();
+        this.close();
+    }
+}
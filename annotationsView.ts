@@ -0,0 +1,226 @@
+import { Component, ItemView, WorkspaceLeaf, Menu } from 'obsidian';
+import EbookReaderPlugin from './main';
+import { ReaderView, READER_VIEW_TYPE, AnnotationType, HIGHLIGHT_COLORS } from './readerView';
+import { compareCfi } from './epubCfi';
+import { WikilinkSuggest, renderNote } from './annotationModals';
+
+export const ANNOTATIONS_VIEW_TYPE = 'ebook-annotations-view';
+
+// One entry of the list, whatever kind of annotation it is
+interface AnnotationItem {
+    type: AnnotationType;
+    id: string;
+    chapterId: string;
+    position: number;
+    cfi?: string;
+    createdAt: number;
+    text: string;
+    tags?: string[];
+    color?: string;
+}
+
+export class AnnotationsView extends ItemView {
+    private plugin: EbookReaderPlugin;
+    private containerDiv: HTMLElement;
+    private listEl: HTMLElement;
+    private listComponent: Component | null = null; // Owns what the rendered notes load, until the next refresh
+    private typeFilter: AnnotationType | 'all' = 'all';
+    private colorFilter: string = 'all';
+
+    constructor(leaf: WorkspaceLeaf, plugin: EbookReaderPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return ANNOTATIONS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'E-Book Annotations';
+    }
+
+    getIcon(): string {
+        return 'highlighter';
+    }
+
+    async onOpen() {
+        this.containerDiv = this.containerEl.createDiv({ cls: 'ebook-annotations-container' });
+        
+        // Filters by type and highlight color
+        const filtersEl = this.containerDiv.createDiv({ cls: 'ebook-annotations-filters' });
+        
+        const typeSelect = filtersEl.createEl('select', { cls: 'dropdown' });
+        [['all', 'All types'], ['highlight', 'Highlights'], ['note', 'Notes'], ['bookmark', 'Bookmarks']].forEach(([value, label]) => {
+            typeSelect.createEl('option', { value, text: label });
+        });
+        typeSelect.value = this.typeFilter;
+        typeSelect.addEventListener('change', () => {
+            this.typeFilter = typeSelect.value as AnnotationType | 'all';
+            this.refresh();
+        });
+        
+        const colorSelect = filtersEl.createEl('select', { cls: 'dropdown' });
+        colorSelect.createEl('option', { value: 'all', text: 'All colors' });
+        HIGHLIGHT_COLORS.forEach(color => {
+            colorSelect.createEl('option', { value: color, text: color.charAt(0).toUpperCase() + color.slice(1) });
+        });
+        colorSelect.value = this.colorFilter;
+        colorSelect.addEventListener('change', () => {
+            this.colorFilter = colorSelect.value;
+            this.refresh();
+        });
+        
+        this.listEl = this.containerDiv.createDiv({ cls: 'ebook-annotations-list' });
+        this.refresh();
+    }
+
+    async onClose() {
+        this.containerDiv?.empty();
+    }
+
+    // Re-render the list from the open book
+    refresh() {
+        if (!this.listEl) return;
+        this.listEl.empty();
+        if (this.listComponent) {
+            this.removeChild(this.listComponent);
+        }
+        const listComponent = this.addChild(new Component());
+        this.listComponent = listComponent;
+        
+        const reader = this.getReader();
+        const annotations = reader?.getAnnotations();
+        if (!reader || !annotations) {
+            this.listEl.createDiv({ cls: 'ebook-annotations-empty', text: 'Open a book to see its annotations.' });
+            return;
+        }
+        
+        const items = this.filterItems(this.collectItems(annotations));
+        if (items.length === 0) {
+            this.listEl.createDiv({ cls: 'ebook-annotations-empty', text: 'No annotations match.' });
+            return;
+        }
+        
+        // Group by chapter in reading order, and by location within a chapter
+        const chapters = new Map<string, AnnotationItem[]>();
+        items.forEach(item => {
+            chapters.set(item.chapterId, [...(chapters.get(item.chapterId) || []), item]);
+        });
+        
+        Array.from(chapters.keys())
+            .sort((a, b) => reader.getSpineIndex(a) - reader.getSpineIndex(b))
+            .forEach(chapterId => {
+                const groupEl = this.listEl.createDiv({ cls: 'ebook-annotations-group' });
+                groupEl.createEl('h4', { text: reader.getChapterTitle(chapterId) });
+                
+                (chapters.get(chapterId) || [])
+                    .sort((a, b) => (a.cfi && b.cfi ? compareCfi(a.cfi, b.cfi) : a.position - b.position) || a.createdAt - b.createdAt)
+                    .forEach(item => this.renderItem(groupEl, item, reader, listComponent));
+            });
+    }
+
+    private getReader(): ReaderView | null {
+        const leaf = this.app.workspace.getLeavesOfType(READER_VIEW_TYPE)[0];
+        return leaf?.view instanceof ReaderView ? leaf.view : null;
+    }
+
+    private collectItems(annotations: NonNullable<ReturnType<ReaderView['getAnnotations']>>): AnnotationItem[] {
+        return [
+            ...annotations.highlights.map(h => ({
+                type: 'highlight' as AnnotationType, id: h.id, chapterId: h.chapterId, position: 0, cfi: h.cfi,
+                createdAt: h.createdAt, text: h.text, color: h.color
+            })),
+            ...annotations.notes.map(n => ({
+                type: 'note' as AnnotationType, id: n.id, chapterId: n.chapterId, position: n.position, cfi: n.cfi,
+                createdAt: n.createdAt, text: n.text, tags: n.tags
+            })),
+            ...annotations.bookmarks.map(b => ({
+                type: 'bookmark' as AnnotationType, id: b.id, chapterId: b.chapterId, position: b.position, cfi: b.cfi,
+                createdAt: b.createdAt, text: b.title
+            }))
+        ];
+    }
+
+    // A color filter only shows highlights of that color
+    private filterItems(items: AnnotationItem[]): AnnotationItem[] {
+        return items.filter(item => {
+            if (this.typeFilter !== 'all' && item.type !== this.typeFilter) return false;
+            if (this.colorFilter !== 'all' && item.color !== this.colorFilter) return false;
+            return true;
+        });
+    }
+
+    private renderItem(groupEl: HTMLElement, item: AnnotationItem, reader: ReaderView, component: Component) {
+        const itemEl = groupEl.createDiv({ cls: `ebook-annotation ebook-annotation-${item.type}` });
+        if (item.color) {
+            itemEl.style.borderLeftColor = item.color;
+        }
+        
+        // Notes are Markdown; links in them open vault notes rather than jumping to the book
+        const textEl = itemEl.createDiv({ cls: 'ebook-annotation-text' });
+        if (item.type === 'note') {
+            renderNote(this.app, item.text, item.tags, textEl, component);
+        } else {
+            textEl.setText(item.text);
+        }
+        textEl.addEventListener('click', (evt: MouseEvent) => {
+            const link = (evt.target as HTMLElement).closest('a');
+            if (link) {
+                if (link.hasClass('internal-link')) {
+                    evt.preventDefault();
+                    this.app.workspace.openLinkText(link.getAttribute('data-href') || '', '', false);
+                }
+                return;
+            }
+            reader.goToAnnotation(item.chapterId, item.position, item.cfi);
+        });
+        
+        const actionsEl = itemEl.createDiv({ cls: 'ebook-annotation-actions' });
+        
+        if (item.type === 'highlight') {
+            actionsEl.createEl('button', { text: 'Color', cls: 'ebook-reader-btn' }).addEventListener('click', (evt) => {
+                const menu = new Menu();
+                HIGHLIGHT_COLORS.forEach(color => {
+                    menu.addItem(menuItem => menuItem
+                        .setTitle(color.charAt(0).toUpperCase() + color.slice(1))
+                        .setChecked(color === item.color)
+                        .onClick(() => reader.recolorHighlight(item.id, color)));
+                });
+                menu.showAtMouseEvent(evt);
+            });
+        }
+        
+        if (item.type === 'note') {
+            actionsEl.createEl('button', { text: 'Edit', cls: 'ebook-reader-btn' }).addEventListener('click', () => {
+                this.editNote(itemEl, textEl, item, reader);
+            });
+        }
+        
+        actionsEl.createEl('button', { text: 'Delete', cls: 'ebook-reader-btn' }).addEventListener('click', () => {
+            reader.deleteAnnotation(item.type, item.id);
+        });
+    }
+
+    // Swap the note's text for a text area until it is saved or cancelled
+    private editNote(itemEl: HTMLElement, textEl: HTMLElement, item: AnnotationItem, reader: ReaderView) {
+        if (itemEl.querySelector('textarea')) return;
+        
+        textEl.hide();
+        const editorEl = itemEl.createDiv({ cls: 'ebook-annotation-editor' });
+        const textarea = editorEl.createEl('textarea', { text: item.text });
+        new WikilinkSuggest(this.app, textarea, editorEl);
+        
+        const buttonsEl = editorEl.createDiv({ cls: 'ebook-annotation-actions' });
+        buttonsEl.createEl('button', { text: 'Save', cls: 'ebook-reader-btn ebook-reader-btn-primary' }).addEventListener('click', () => {
+            reader.updateNoteText(item.id, textarea.value);
+        });
+        buttonsEl.createEl('button', { text: 'Cancel', cls: 'ebook-reader-btn' }).addEventListener('click', () => {
+            editorEl.remove();
+            textEl.show();
+        });
+        
+        itemEl.insertBefore(editorEl, textEl.nextSibling);
+        textarea.focus();
+    }
+}
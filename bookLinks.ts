@@ -0,0 +1,52 @@
+// Action of the obsidian:// links into books
+export const BOOK_URI_ACTION = 'ebook';
+
+/**
+ * A place in a book given by the loc parameter of a link
+ */
+export type BookLocation =
+    | { cfi: string }
+    | { chapterId: string; position: number };
+
+/**
+ * Build an obsidian://ebook link to a book, optionally at a location or highlight
+ */
+export function buildBookUri(vaultName: string, bookId: string, params: { loc?: string; highlight?: string } = {}): string {
+    const query = [`vault=${encodeURIComponent(vaultName)}`, `book=${encodeURIComponent(bookId)}`];
+    if (params.loc) query.push(`loc=${encodeURIComponent(params.loc)}`);
+    if (params.highlight) query.push(`highlight=${encodeURIComponent(params.highlight)}`);
+    return `obsidian://${BOOK_URI_ACTION}?${query.join('&')}`;
+}
+
+/**
+ * Format a location for the loc parameter: a CFI when there is one, otherwise chapter/percentage
+ */
+export function formatLocation(location: BookLocation): string {
+    if ('cfi' in location) return location.cfi;
+    return `${location.chapterId}/${Math.round(location.position * 100) / 100}`;
+}
+
+/**
+ * Parse the loc parameter of a link
+ */
+export function parseLocation(loc: string): BookLocation | null {
+    const value = loc.trim();
+    if (value.startsWith('epubcfi(')) return { cfi: value };
+
+    // Chapter IDs cannot contain a slash, so the last one separates the position
+    const slash = value.lastIndexOf('/');
+    if (slash === -1) return value ? { chapterId: value, position: 0 } : null;
+
+    const position = parseFloat(value.substring(slash + 1));
+    return {
+        chapterId: value.substring(0, slash),
+        position: isNaN(position) ? 0 : Math.max(0, Math.min(100, position))
+    };
+}
+
+/**
+ * A Markdown link with the brackets in its text escaped
+ */
+export function formatMarkdownLink(text: string, uri: string): string {
+    return `[${text.replace(/([[\]])/g, '\\$1')}](${uri})`;
+}
@@ -0,0 +1,50 @@
+/**
+ * Share of a book read, as a percentage: the items before the current one, plus the read part of the
+ * current one. Each item counts for its length of text, so a short preface moves progress less than
+ * a long chapter. Items not measured yet count for the average length of those that are.
+ */
+export function getBookProgress(items: string[], lengths: Record<string, number>, itemId: string, position: number): number {
+    const weights = getWeights(items, lengths);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const index = items.indexOf(itemId);
+    if (total <= 0 || index === -1) return 0;
+
+    const before = weights.slice(0, index).reduce((sum, weight) => sum + weight, 0);
+    const progress = (before + weights[index] * Math.max(0, Math.min(100, position)) / 100) / total * 100;
+    return Math.min(100, progress);
+}
+
+/**
+ * The item and the position in it at a share of the book, the reverse of getBookProgress
+ */
+export function getProgressLocation(items: string[], lengths: Record<string, number>, progress: number): { itemId: string; position: number } | null {
+    const weights = getWeights(items, lengths);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) return null;
+
+    const target = total * Math.max(0, Math.min(100, progress)) / 100;
+    let before = 0;
+    let last = -1;
+    for (let i = 0; i < items.length; i++) {
+        if (weights[i] <= 0) continue;
+        if (target < before + weights[i]) {
+            return { itemId: items[i], position: (target - before) / weights[i] * 100 };
+        }
+        before += weights[i];
+        last = i;
+    }
+
+    // The very end of the book
+    return last === -1 ? null : { itemId: items[last], position: 100 };
+}
+
+// Items without text, such as full-page images, do not count, unless no item has text, as in a comic
+function getWeights(items: string[], lengths: Record<string, number>): number[] {
+    const measured = items.map(itemId => lengths[itemId]).filter(length => length !== undefined);
+    const average = measured.length > 0 ? measured.reduce((sum, length) => sum + length, 0) / measured.length : 1;
+    if (average === 0) {
+        return items.map(() => 1);
+    }
+
+    return items.map(itemId => lengths[itemId] ?? average);
+}
@@ -0,0 +1,167 @@
+import { EpubContent } from './epubParser';
+import { CFI_ROOT_CLASS, importChapterHtml } from './epubCfi';
+
+// Searches stop after this many matches
+export const MAX_SEARCH_RESULTS = 500;
+
+// Characters of context shown on each side of a match
+const CONTEXT_LENGTH = 40;
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+}
+
+/**
+ * A match in a chapter, as character offsets into the text of the chapter body. These are the same
+ * offsets highlights use, so a match can be found again in the rendered chapter.
+ */
+export interface SearchMatch {
+    itemId: string;
+    start: number;
+    end: number;
+    before: string;
+    text: string;
+    after: string;
+}
+
+/**
+ * Full-text search across every document in a book's spine. The text of each chapter is extracted
+ * once and kept, so searching again while typing does not reload the book.
+ */
+export class BookSearch {
+    private epubContent: EpubContent;
+    private texts: Map<string, string> = new Map();
+    private searchId: number = 0;
+
+    constructor(epubContent: EpubContent) {
+        this.epubContent = epubContent;
+    }
+
+    /**
+     * Search the book in reading order. Matches are reported chapter by chapter as they are found,
+     * and the search yields between chapters so the reader stays responsive. Starting another search
+     * or calling cancel() stops this one. Resolves to false when the search was stopped.
+     */
+    async search(query: string, options: SearchOptions, onMatches: (matches: SearchMatch[], searched: number, total: number) => void): Promise<boolean> {
+        const searchId = ++this.searchId;
+        const pattern = createSearchPattern(query, options);
+        if (!pattern) return true;
+
+        const itemIds = this.epubContent.spine.items.filter(itemId => this.epubContent.hasChapter(itemId));
+        let found = 0;
+
+        for (let i = 0; i < itemIds.length && found < MAX_SEARCH_RESULTS; i++) {
+            const text = await this.getText(itemIds[i]);
+            if (searchId !== this.searchId) return false;
+
+            const matches = findMatches(text, pattern, options, MAX_SEARCH_RESULTS - found)
+                .map(({ start, end }) => ({
+                    itemId: itemIds[i],
+                    start,
+                    end,
+                    ...getMatchContext(text, start, end)
+                }));
+            found += matches.length;
+            onMatches(matches, i + 1, itemIds.length);
+
+            await new Promise(resolve => window.setTimeout(resolve, 0));
+            if (searchId !== this.searchId) return false;
+        }
+
+        return true;
+    }
+
+    cancel() {
+        this.searchId++;
+    }
+
+    /**
+     * Get the text of a chapter body, as it is rendered
+     */
+    async getText(itemId: string): Promise<string> {
+        const cached = this.texts.get(itemId);
+        if (cached !== undefined) return cached;
+
+        const html = await this.epubContent.getChapter(itemId);
+        const text = html ? getBodyText(html) : '';
+        this.texts.set(itemId, text);
+        return text;
+    }
+}
+
+/**
+ * Build the expression a query is searched with. Runs of whitespace in the query match any
+ * whitespace, as the text of a chapter breaks lines where its source does.
+ */
+export function createSearchPattern(query: string, options: SearchOptions): RegExp | null {
+    const words = query.trim().split(/\s+/).filter(word => word.length > 0);
+    if (words.length === 0) return null;
+
+    const source = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Find the matches of a search pattern in a chapter's text
+ */
+export function findMatches(text: string, pattern: RegExp, options: SearchOptions, limit: number): { start: number; end: number }[] {
+    const matches: { start: number; end: number }[] = [];
+    pattern.lastIndex = 0;
+
+    for (let match = pattern.exec(text); match && matches.length < limit; match = pattern.exec(text)) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (!options.wholeWord || (!isWordChar(text.charAt(start - 1)) && !isWordChar(text.charAt(end)))) {
+            matches.push({ start, end });
+            pattern.lastIndex = end;
+        } else {
+            // A longer word may still end in a match
+            pattern.lastIndex = start + 1;
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Describe a number of matches, such as "1 match" or "12 matches"
+ */
+export function formatMatchCount(count: number): string {
+    return count === 1 ? '1 match' : `${count} matches`;
+}
+
+// The text of the rendered chapter body, as the reader counts offsets in it. The text of style and
+// script elements, which the reader keeps in place but does not show, is blanked out so it cannot match.
+function getBodyText(html: string): string {
+    const fragment = importChapterHtml(html);
+    const root = fragment.querySelector(`.${CFI_ROOT_CLASS}`) || fragment;
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const parts: string[] = [];
+
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const hidden = node.parentElement?.closest('style, script');
+        parts.push(hidden ? node.data.replace(/[^]/g, ' ') : node.data);
+    }
+    return parts.join('');
+}
+
+/**
+ * The text of a match and the text around it, each on one line
+ */
+export function getMatchContext(text: string, start: number, end: number): { before: string; text: string; after: string } {
+    const collapse = (value: string) => value.replace(/\s+/g, ' ');
+    const contextStart = Math.max(0, start - CONTEXT_LENGTH);
+    const contextEnd = Math.min(text.length, end + CONTEXT_LENGTH);
+
+    return {
+        before: (contextStart > 0 ? '…' : '') + collapse(text.substring(contextStart, start)).replace(/^ /, ''),
+        text: collapse(text.substring(start, end)),
+        after: collapse(text.substring(end, contextEnd)).replace(/ $/, '') + (contextEnd < text.length ? '…' : '')
+    };
+}
+
+// Letters of any script, digits and underscores; letters are the characters that have a case
+function isWordChar(char: string): boolean {
+    return !!char && (char.toLowerCase() !== char.toUpperCase() || /[0-9_]/.test(char));
+}
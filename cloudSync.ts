@@ -187,6 +187,7 @@ export class CloudSyncManager {
             if (sync.syncReadingProgress) {
                 syncedState.currentLocation = state.currentLocation;
                 syncedState.position = state.position;
+                syncedState.cfi = state.cfi;
             }
             
             if (sync.syncBookmarks) {
@@ -272,6 +273,7 @@ export class CloudSyncManager {
             if (isRemoteAhead) {
                 mergedState.currentLocation = remoteState.currentLocation;
                 mergedState.position = remoteState.position;
+                mergedState.cfi = remoteState.cfi;
             }
         }
         
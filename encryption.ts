@@ -0,0 +1,133 @@
+import { parseXml } from './utils';
+import { EpubMetadata } from './epubParser';
+import { DrmScheme } from './epubErrors';
+
+// Font obfuscation algorithms from META-INF/encryption.xml
+export const IDPF_OBFUSCATION = 'http://www.idpf.org/2008/embedding';
+export const ADOBE_OBFUSCATION = 'http://ns.adobe.com/pdf/enc#RC';
+
+// Markers of DRM schemes in META-INF/rights.xml and encryption.xml
+const ADEPT_NAMESPACE = 'http://ns.adobe.com/adept';
+const FAIRPLAY_MARKER = 'itunes.apple.com';
+
+// Number of leading bytes each algorithm obfuscates
+const IDPF_OBFUSCATED_LENGTH = 1040;
+const ADOBE_OBFUSCATED_LENGTH = 1024;
+
+/**
+ * Parse META-INF/encryption.xml into a map of archive path to encryption algorithm
+ */
+export function parseEncryptionXml(xml: string): Record<string, string> {
+    const encryptedResources: Record<string, string> = {};
+    const doc = parseXml(xml);
+
+    Array.from(doc.getElementsByTagNameNS('*', 'EncryptedData')).forEach(el => {
+        const algorithm = el.getElementsByTagNameNS('*', 'EncryptionMethod')[0]?.getAttribute('Algorithm');
+        const uri = el.getElementsByTagNameNS('*', 'CipherReference')[0]?.getAttribute('URI');
+
+        if (algorithm && uri) {
+            // URIs are relative to the root of the container
+            let path = uri.replace(/^\//, '');
+            try {
+                path = decodeURIComponent(path);
+            } catch (e) {
+                // Keep the URI as written if it is not valid percent-encoding
+            }
+            encryptedResources[path] = algorithm;
+        }
+    });
+
+    return encryptedResources;
+}
+
+/**
+ * Check whether an algorithm is a font obfuscation algorithm that can be reversed
+ */
+export function isFontObfuscation(algorithm: string): boolean {
+    return algorithm === IDPF_OBFUSCATION || algorithm === ADOBE_OBFUSCATION;
+}
+
+/**
+ * Detect DRM from the encrypted resources and the optional rights.xml and sinf.xml files
+ */
+export function detectDrm(encryption: Record<string, string>, rightsXml: string | null, hasSinf: boolean): DrmScheme | null {
+    // Apple FairPlay books carry their keys in META-INF/sinf.xml
+    if (hasSinf) return 'apple-fairplay';
+
+    // Font obfuscation is not DRM; anything else listed in encryption.xml is
+    const algorithms = Object.values(encryption).filter(algorithm => !isFontObfuscation(algorithm));
+    if (algorithms.length === 0) return null;
+
+    if (algorithms.some(algorithm => algorithm.includes(FAIRPLAY_MARKER))) return 'apple-fairplay';
+    if (rightsXml && rightsXml.includes(ADEPT_NAMESPACE)) return 'adobe-adept';
+
+    return 'unknown';
+}
+
+/**
+ * Reverse IDPF or Adobe font obfuscation. Obfuscation is a XOR of the start of
+ * the file, so the same operation both obfuscates and de-obfuscates.
+ */
+export async function deobfuscateFont(data: Uint8Array, algorithm: string, metadata: EpubMetadata): Promise<Uint8Array> {
+    if (algorithm === IDPF_OBFUSCATION) {
+        if (!metadata.identifier) return data;
+        const key = await getIdpfKey(metadata.identifier);
+        return xorPrefix(data, key, IDPF_OBFUSCATED_LENGTH);
+    }
+
+    if (algorithm === ADOBE_OBFUSCATION) {
+        const key = getAdobeKey(metadata);
+        if (!key) return data;
+        return xorPrefix(data, key, ADOBE_OBFUSCATED_LENGTH);
+    }
+
+    return data;
+}
+
+/**
+ * IDPF key: SHA-1 of the unique identifier with all XML whitespace removed
+ */
+export async function getIdpfKey(uniqueIdentifier: string): Promise<Uint8Array> {
+    const stripped = uniqueIdentifier.replace(/[ \u0009\u000d\u000a]/g, '');
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(stripped));
+    return new Uint8Array(digest);
+}
+
+/**
+ * Adobe key: the 16 bytes of the book's urn:uuid identifier
+ */
+export function getAdobeKey(metadata: EpubMetadata): Uint8Array | null {
+    const candidates = [
+        metadata.identifier || '',
+        ...(metadata.identifiers || [])
+            .filter(identifier => identifier.type === 'uuid')
+            .map(identifier => identifier.value)
+    ];
+
+    for (const candidate of candidates) {
+        const hex = candidate.replace(/^urn:uuid:/i, '').replace(/-/g, '');
+        if (/^[0-9a-f]{32}$/i.test(hex)) {
+            const key = new Uint8Array(16);
+            for (let i = 0; i < 16; i++) {
+                key[i] = parseInt(hex.substr(i * 2, 2), 16);
+            }
+            return key;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * XOR the first length bytes of data with a repeating key
+ */
+function xorPrefix(data: Uint8Array, key: Uint8Array, length: number): Uint8Array {
+    const result = new Uint8Array(data);
+    const count = Math.min(length, result.length);
+
+    for (let i = 0; i < count; i++) {
+        result[i] = result[i] ^ key[i % key.length];
+    }
+
+    return result;
+}
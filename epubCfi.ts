@@ -0,0 +1,429 @@
+import { parseXml } from './utils';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Class of the element standing in for the <body> of a rendered chapter. CFI paths are resolved from it.
+export const CFI_ROOT_CLASS = 'ebook-chapter-body';
+
+// Elements the reader wraps around text, such as highlights and search matches. They are transparent to CFI paths.
+const TRANSPARENT_CLASSES = ['ebook-highlight', 'ebook-search-match'];
+
+/**
+ * A position in the DOM: a text node and a character offset, or an element and a child offset
+ */
+export interface DomPoint {
+    node: Node;
+    offset: number;
+}
+
+interface CfiStep {
+    index: number;
+    id?: string;
+}
+
+interface CfiLocalPath {
+    steps: CfiStep[];
+    offset?: number;
+}
+
+/**
+ * A parsed EPUB Canonical Fragment Identifier. For a range, path is the common parent and start/end
+ * are relative to it; for a single point, start and end are absent.
+ */
+interface ParsedCfi {
+    spineStep: CfiStep;
+    path: CfiLocalPath;
+    start?: CfiLocalPath;
+    end?: CfiLocalPath;
+}
+
+/**
+ * Build the rendered structure of a chapter from its XHTML. The children of <body> are moved into an
+ * element with CFI_ROOT_CLASS so paths from the original document's body resolve against the rendered DOM.
+ * Stylesheet links and style elements from <head> are kept in front of it. The nodes are meant to go into
+ * the page as they are: serializing and re-parsing them, or removing elements, changes the paths.
+ */
+export function importChapterHtml(html: string): DocumentFragment {
+    const fragment = document.createDocumentFragment();
+    const doc = parseXml(html);
+    const body = doc.getElementsByTagNameNS(XHTML_NAMESPACE, 'body')[0];
+
+    if (!body || doc.getElementsByTagName('parsererror').length > 0) {
+        // Not a complete XHTML document, such as a single note; parse it as HTML
+        const wrapper = document.createElement('div');
+        wrapper.innerHTML = html;
+        fragment.append(...Array.from(wrapper.childNodes));
+        return fragment;
+    }
+
+    Array.from(doc.getElementsByTagNameNS(XHTML_NAMESPACE, 'head')[0]?.children || [])
+        .filter(el => el.localName === 'link' || el.localName === 'style')
+        .forEach(el => fragment.appendChild(document.importNode(el, true)));
+
+    // Remember which step of <html> the body is, usually /4 after <head>
+    const bodySteps = Array.from(body.parentElement?.children || []).indexOf(body);
+    const root = document.createElement('div');
+    root.className = CFI_ROOT_CLASS;
+    root.setAttribute('data-cfi-step', ((Math.max(bodySteps, 0) + 1) * 2).toString());
+    if (body.getAttribute('id')) {
+        root.setAttribute('data-cfi-id', body.getAttribute('id') || '');
+    }
+
+    // Importing the nodes keeps the document structure exactly, unlike re-parsing serialized XHTML as HTML
+    Array.from(body.childNodes).forEach(node => root.appendChild(document.importNode(node, true)));
+    fragment.appendChild(root);
+
+    return fragment;
+}
+
+/**
+ * Create a CFI for a point, or for a range when end is given, inside a rendered chapter
+ */
+export function createCfi(spineIndex: number, itemId: string, root: Element, start: DomPoint, end?: DomPoint): string | null {
+    const base = `/6/${(spineIndex + 1) * 2}[${escapeCfi(itemId)}]!${formatStep(getRootStep(root))}`;
+
+    const startPath = getLocalPath(root, start);
+    if (!startPath) return null;
+    if (!end) {
+        return `epubcfi(${base}${formatLocalPath(startPath)})`;
+    }
+
+    const endPath = getLocalPath(root, end);
+    if (!endPath) return null;
+
+    // The common parent is the shared run of element steps, excluding each side's last step
+    let common = 0;
+    while (
+        common < startPath.steps.length - 1 &&
+        common < endPath.steps.length - 1 &&
+        startPath.steps[common].index === endPath.steps[common].index
+    ) {
+        common++;
+    }
+
+    const parent = { steps: startPath.steps.slice(0, common) };
+    const startLocal = { steps: startPath.steps.slice(common), offset: startPath.offset };
+    const endLocal = { steps: endPath.steps.slice(common), offset: endPath.offset };
+    return `epubcfi(${base}${formatLocalPath(parent)},${formatLocalPath(startLocal)},${formatLocalPath(endLocal)})`;
+}
+
+/**
+ * Create a CFI for the position a given number of characters into a chapter's text, optionally
+ * spanning length characters. Used to convert percentage-based positions.
+ */
+export function createCfiFromTextOffset(spineIndex: number, itemId: string, root: Element, textOffset: number, length?: number): string | null {
+    const start = findTextPoint(root, textOffset);
+    if (!start) return null;
+
+    const end = length ? findTextPoint(root, textOffset + length) : null;
+    return createCfi(spineIndex, itemId, root, start, end || undefined);
+}
+
+/**
+ * Resolve a CFI against a rendered chapter. Returns a collapsed range for a point.
+ */
+export function resolveCfi(cfi: string, root: Element): Range | null {
+    const parsed = parseCfi(cfi);
+    if (!parsed) return null;
+
+    const range = document.createRange();
+    try {
+        if (parsed.start && parsed.end) {
+            const start = resolveLocalPath(root, [...parsed.path.steps, ...parsed.start.steps], parsed.start.offset);
+            const end = resolveLocalPath(root, [...parsed.path.steps, ...parsed.end.steps], parsed.end.offset);
+            if (!start || !end) return null;
+            range.setStart(start.node, start.offset);
+            range.setEnd(end.node, end.offset);
+        } else {
+            const point = resolveLocalPath(root, parsed.path.steps, parsed.path.offset);
+            if (!point) return null;
+            range.setStart(point.node, point.offset);
+            range.collapse(true);
+        }
+    } catch (e) {
+        console.error(`Error resolving CFI ${cfi}:`, e);
+        return null;
+    }
+
+    return range;
+}
+
+/**
+ * Get the spine item a CFI points into: its zero-based spine index and the idref assertion, if any
+ */
+export function getCfiSpineItem(cfi: string): { index: number; itemId?: string } | null {
+    const parsed = parseCfi(cfi);
+    if (!parsed) return null;
+    return { index: parsed.spineStep.index / 2 - 1, itemId: parsed.spineStep.id };
+}
+
+/**
+ * Order two CFIs in the same book by their position in reading order
+ */
+export function compareCfi(a: string, b: string): number {
+    const parsedA = parseCfi(a);
+    const parsedB = parseCfi(b);
+    if (!parsedA || !parsedB) return 0;
+
+    const spineDiff = parsedA.spineStep.index - parsedB.spineStep.index;
+    if (spineDiff !== 0) return spineDiff;
+
+    const flatten = (parsed: ParsedCfi): number[] => {
+        const local = parsed.start || { steps: [], offset: parsed.path.offset };
+        return [...parsed.path.steps, ...local.steps].map(step => step.index).concat(local.offset ?? 0);
+    };
+    const pathA = flatten(parsedA);
+    const pathB = flatten(parsedB);
+
+    for (let i = 0; i < Math.min(pathA.length, pathB.length); i++) {
+        if (pathA[i] !== pathB[i]) return pathA[i] - pathB[i];
+    }
+    return pathA.length - pathB.length;
+}
+
+function getRootStep(root: Element): CfiStep {
+    return {
+        index: parseInt(root.getAttribute('data-cfi-step') || '4', 10),
+        id: root.getAttribute('data-cfi-id') || undefined
+    };
+}
+
+function isTransparent(node: Node): boolean {
+    return node.nodeType === Node.ELEMENT_NODE && TRANSPARENT_CLASSES.some(cls => (node as Element).classList.contains(cls));
+}
+
+// Children as they were in the original document: transparent wrappers are replaced by their contents
+function getLogicalChildren(parent: Node): Node[] {
+    const children: Node[] = [];
+    parent.childNodes.forEach(child => {
+        if (isTransparent(child)) {
+            children.push(...getLogicalChildren(child));
+        } else if (child.nodeType === Node.ELEMENT_NODE || child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+            children.push(child);
+        }
+    });
+    return children;
+}
+
+// Nearest ancestor that is part of the original document
+function getLogicalParent(node: Node, root: Element): Node | null {
+    let parent = node.parentNode;
+    while (parent && parent !== root && isTransparent(parent)) {
+        parent = parent.parentNode;
+    }
+    return parent;
+}
+
+// Elements are even steps; runs of text before, between and after them are the odd steps
+function getStepIndex(parent: Node, node: Node): number {
+    let elements = 0;
+    for (const child of getLogicalChildren(parent)) {
+        if (child.nodeType === Node.ELEMENT_NODE) elements++;
+        if (child === node) {
+            return child.nodeType === Node.ELEMENT_NODE ? elements * 2 : elements * 2 + 1;
+        }
+    }
+    return -1;
+}
+
+function getLocalPath(root: Element, point: DomPoint): CfiLocalPath | null {
+    let node = point.node;
+    let offset: number | undefined = point.offset;
+
+    // An element and child offset points at the start of that child
+    if (node.nodeType === Node.ELEMENT_NODE && !isTransparent(node)) {
+        const child = node.childNodes[point.offset];
+        if (child) {
+            node = child;
+            offset = 0;
+        } else {
+            offset = undefined;
+        }
+    }
+    while (isTransparent(node)) {
+        const first = node.firstChild;
+        if (!first) return null;
+        node = first;
+        offset = 0;
+    }
+
+    const steps: CfiStep[] = [];
+
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+        const parent = getLogicalParent(node, root);
+        if (!parent) return null;
+
+        // Offsets count from the start of the whole run of text, across transparent wrappers
+        const step = getStepIndex(parent, node);
+        let textOffset = offset || 0;
+        for (const sibling of getLogicalChildren(parent)) {
+            if (sibling === node) break;
+            if (sibling.nodeType !== Node.ELEMENT_NODE && getStepIndex(parent, sibling) === step) {
+                textOffset += (sibling.textContent || '').length;
+            }
+        }
+
+        steps.unshift({ index: step });
+        offset = textOffset;
+        node = parent;
+    } else {
+        offset = undefined;
+    }
+
+    while (node !== root) {
+        const parent = getLogicalParent(node, root);
+        if (!parent) return null;
+
+        const id = (node as Element).getAttribute?.('id') || undefined;
+        steps.unshift({ index: getStepIndex(parent, node), id });
+        node = parent;
+    }
+
+    return { steps, offset };
+}
+
+function resolveLocalPath(root: Element, steps: CfiStep[], offset?: number): DomPoint | null {
+    let current: Node = root;
+
+    for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        const children = getLogicalChildren(current);
+
+        if (step.index % 2 === 1) {
+            // A run of text: find the node containing the offset
+            const texts = children.filter(child => child.nodeType !== Node.ELEMENT_NODE && getStepIndex(current, child) === step.index);
+            let remaining = offset || 0;
+            for (const text of texts) {
+                const length = (text.textContent || '').length;
+                if (remaining <= length) {
+                    return { node: text, offset: remaining };
+                }
+                remaining -= length;
+            }
+
+            // The text has changed; fall back to the end of the run or the parent
+            const last = texts[texts.length - 1];
+            return last ? { node: last, offset: (last.textContent || '').length } : { node: current, offset: 0 };
+        }
+
+        let element: Node | undefined = children.filter(child => child.nodeType === Node.ELEMENT_NODE)[step.index / 2 - 1];
+
+        // Use the ID assertion to recover from structural changes
+        if (step.id && (!element || (element as Element).getAttribute('id') !== step.id)) {
+            element = root.querySelector(`[id="${CSS.escape(step.id)}"]`) || element;
+        }
+        if (!element) return null;
+        current = element;
+    }
+
+    return { node: current, offset: 0 };
+}
+
+// Find the text node and offset a given number of characters into an element's text
+function findTextPoint(root: Element, textOffset: number): DomPoint | null {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let remaining = Math.max(0, textOffset);
+    let last: Text | null = null;
+
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const length = node.data.length;
+        if (remaining < length) {
+            return { node, offset: remaining };
+        }
+        remaining -= length;
+        last = node;
+    }
+
+    return last ? { node: last, offset: last.data.length } : null;
+}
+
+function parseCfi(cfi: string): ParsedCfi | null {
+    const match = cfi.trim().match(/^epubcfi\((.*)\)$/);
+    if (!match) return null;
+
+    const parts = splitUnescaped(match[1], ',');
+    const [packagePath, contentPath] = splitUnescaped(parts[0], '!');
+    if (contentPath === undefined) return null;
+
+    const spinePath = parseLocalPath(packagePath);
+    const path = parseLocalPath(contentPath);
+    if (!spinePath || !path || spinePath.steps.length < 2) return null;
+
+    // The first content step is the body, which the rendered chapter root stands in for
+    path.steps.shift();
+
+    const parsed: ParsedCfi = { spineStep: spinePath.steps[1], path };
+    if (parts.length === 3) {
+        const start = parseLocalPath(parts[1]);
+        const end = parseLocalPath(parts[2]);
+        if (!start || !end) return null;
+        parsed.start = start;
+        parsed.end = end;
+    }
+    return parsed;
+}
+
+function parseLocalPath(path: string): CfiLocalPath | null {
+    const steps: CfiStep[] = [];
+    const stepPattern = /\/(\d+)(?:\[((?:\^.|[^\]])*)\])?/y;
+    let position = 0;
+
+    while (position < path.length && path[position] === '/') {
+        stepPattern.lastIndex = position;
+        const match = stepPattern.exec(path);
+        if (!match) return null;
+        steps.push({ index: parseInt(match[1], 10), id: match[2] ? unescapeCfi(match[2]) : undefined });
+        position = stepPattern.lastIndex;
+    }
+
+    // Character offset, ignoring any text location assertion
+    let offset: number | undefined;
+    const offsetMatch = path.substring(position).match(/^:(\d+)/);
+    if (offsetMatch) {
+        offset = parseInt(offsetMatch[1], 10);
+    }
+
+    return { steps, offset };
+}
+
+function formatStep(step: CfiStep): string {
+    return `/${step.index}${step.id ? `[${escapeCfi(step.id)}]` : ''}`;
+}
+
+function formatLocalPath(path: CfiLocalPath): string {
+    return path.steps.map(formatStep).join('') + (path.offset !== undefined ? `:${path.offset}` : '');
+}
+
+function escapeCfi(value: string): string {
+    return value.replace(/[\^[\](),;=]/g, '^$&');
+}
+
+function unescapeCfi(value: string): string {
+    return value.replace(/\^(.)/g, '$1');
+}
+
+// Split on a separator that is not escaped with ^ and not inside an [assertion]
+function splitUnescaped(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let inAssertion = false;
+
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+        if (char === '^' && i + 1 < value.length) {
+            current += char + value[++i];
+            continue;
+        }
+        if (char === '[') inAssertion = true;
+        if (char === ']') inAssertion = false;
+
+        if (char === separator && !inAssertion) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
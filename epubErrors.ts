@@ -0,0 +1,112 @@
+export type DrmScheme = 'adobe-adept' | 'apple-fairplay' | 'unknown';
+
+/**
+ * Base class for all errors raised while opening an EPUB
+ */
+export class EpubParseError extends Error {
+    // Short explanation of what the user can do about the problem
+    hint: string;
+
+    constructor(message: string, hint: string) {
+        super(message);
+        this.name = 'EpubParseError';
+        this.hint = hint;
+    }
+}
+
+/**
+ * The file could not be read as a zip archive
+ */
+export class CorruptZipError extends EpubParseError {
+    constructor(cause?: string) {
+        super(
+            `Invalid EPUB: The file is not a readable zip archive${cause ? ` (${cause})` : ''}`,
+            'The file may be damaged or incompletely downloaded. Try downloading it again.'
+        );
+        this.name = 'CorruptZipError';
+    }
+}
+
+/**
+ * META-INF/container.xml is missing or does not point to a package document
+ */
+export class MissingContainerError extends EpubParseError {
+    constructor(message: string = 'Invalid EPUB: Missing container.xml') {
+        super(
+            message,
+            'This file is not a valid EPUB. Try converting it to EPUB again, for example with Calibre.'
+        );
+        this.name = 'MissingContainerError';
+    }
+}
+
+/**
+ * The package document (OPF) referenced by container.xml is missing
+ */
+export class MissingOpfError extends EpubParseError {
+    path: string;
+
+    constructor(path: string) {
+        super(
+            `Invalid EPUB: Missing OPF file at ${path}`,
+            'The book\'s package file is missing. Try converting it to EPUB again, for example with Calibre.'
+        );
+        this.name = 'MissingOpfError';
+        this.path = path;
+    }
+}
+
+/**
+ * The spine lists no documents to read
+ */
+export class EmptySpineError extends EpubParseError {
+    constructor() {
+        super(
+            'Invalid EPUB: No spine items found',
+            'The book does not list any chapters in its reading order. Try converting it to EPUB again.'
+        );
+        this.name = 'EmptySpineError';
+    }
+}
+
+/**
+ * The book's content is encrypted with DRM
+ */
+export class DrmProtectedError extends EpubParseError {
+    scheme: DrmScheme;
+
+    constructor(scheme: DrmScheme) {
+        super(
+            `This book is protected by ${getDrmSchemeName(scheme)}`,
+            scheme === 'apple-fairplay'
+                ? 'FairPlay-protected books can only be read in Apple Books. Obtain a DRM-free copy to read it here.'
+                : 'DRM-protected books cannot be opened here. Use the reading app provided by the store, or obtain a DRM-free copy.'
+        );
+        this.name = 'DrmProtectedError';
+        this.scheme = scheme;
+    }
+}
+
+/**
+ * Get a readable name for a DRM scheme
+ */
+export function getDrmSchemeName(scheme: DrmScheme): string {
+    switch (scheme) {
+        case 'adobe-adept':
+            return 'Adobe ADEPT DRM';
+        case 'apple-fairplay':
+            return 'Apple FairPlay DRM';
+        default:
+            return 'DRM';
+    }
+}
+
+/**
+ * Build a message for the user from any error thrown while opening a book
+ */
+export function describeEpubError(error: Error): string {
+    if (error instanceof EpubParseError) {
+        return `${error.message}. ${error.hint}`;
+    }
+    return error.message;
+}
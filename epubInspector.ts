@@ -0,0 +1,318 @@
+import { parseEpub, EpubContent, EpubNavPoint, isHtmlType, resolveRelativePath } from './epubParser';
+import { describeEpubError } from './epubErrors';
+import { parseXml } from './utils';
+
+export type InspectionSeverity = 'error' | 'warning';
+
+export interface InspectionIssue {
+    severity: InspectionSeverity;
+    check: string; // Name of the check that found the issue
+    message: string;
+    location?: string; // Archive path or manifest ID the issue was found in
+}
+
+export interface InspectionReport {
+    title: string;
+    path: string;
+    issues: InspectionIssue[];
+    stats: {
+        spineItems: number;
+        manifestItems: number;
+        tocEntries: number;
+        images: number;
+    };
+    inspectedAt: number;
+}
+
+/**
+ * Run health checks on an EPUB file
+ */
+export async function inspectEpub(data: ArrayBuffer, title: string, path: string): Promise<InspectionReport> {
+    const report: InspectionReport = {
+        title,
+        path,
+        issues: [],
+        stats: { spineItems: 0, manifestItems: 0, tocEntries: 0, images: 0 },
+        inspectedAt: Date.now()
+    };
+
+    let epubContent: EpubContent;
+    try {
+        epubContent = await parseEpub(data);
+    } catch (error) {
+        // The book cannot be opened at all, so there is nothing more to check
+        report.issues.push({ severity: 'error', check: 'Parse', message: describeEpubError(error) });
+        return report;
+    }
+
+    report.stats.spineItems = epubContent.spine.items.length;
+    report.stats.manifestItems = Object.keys(epubContent.manifest).length;
+    report.stats.tocEntries = countNavPoints(epubContent.navPoints);
+    report.stats.images = Object.values(epubContent.manifest).filter(item => item.mediaType.startsWith('image/')).length;
+
+    checkSpine(epubContent, report);
+
+    // Parse every document once and share it between the document-level checks
+    const documents = new Map<string, Document>();
+    for (const item of Object.values(epubContent.manifest)) {
+        if (!isHtmlType(item.mediaType) || !epubContent.hasFile(item.href)) continue;
+
+        const text = await epubContent.getText(item.href);
+        if (text === null) continue;
+
+        // Only XHTML has to be well-formed XML, plain HTML is parsed the way a browser would
+        const isXhtml = item.mediaType === 'application/xhtml+xml';
+        const doc = isXhtml ? parseXml(text) : new DOMParser().parseFromString(text, 'text/html');
+        const parserError = isXhtml ? doc.querySelector('parsererror') : null;
+        if (parserError) {
+            report.issues.push({
+                severity: 'error',
+                check: 'Malformed XHTML',
+                message: (parserError.textContent || 'The document is not well-formed XML').replace(/\s+/g, ' ').trim(),
+                location: item.href
+            });
+            continue;
+        }
+
+        documents.set(item.href, doc);
+        checkDuplicateIds(doc, item.href, report);
+    }
+
+    checkToc(epubContent, documents, report);
+    await checkImages(epubContent, documents, report);
+
+    return report;
+}
+
+/**
+ * Spine items must exist in the manifest and in the archive
+ */
+function checkSpine(epubContent: EpubContent, report: InspectionReport) {
+    for (const itemId of epubContent.spine.items) {
+        const item = epubContent.manifest[itemId];
+        if (!item) {
+            report.issues.push({
+                severity: 'error',
+                check: 'Spine',
+                message: `Spine item "${itemId}" is not declared in the manifest`,
+                location: itemId
+            });
+        } else if (!epubContent.hasFile(item.href)) {
+            report.issues.push({
+                severity: 'error',
+                check: 'Missing content',
+                message: `Spine item "${itemId}" points to ${item.href}, which is missing from the archive`,
+                location: item.href
+            });
+        } else if (!isHtmlType(item.mediaType)) {
+            report.issues.push({
+                severity: 'warning',
+                check: 'Spine',
+                message: `Spine item "${itemId}" has media type ${item.mediaType} and cannot be displayed`,
+                location: item.href
+            });
+        }
+    }
+
+    if (epubContent.navPoints.length === 0) {
+        report.issues.push({
+            severity: 'warning',
+            check: 'Table of contents',
+            message: 'The book has no navigation document or NCX table of contents'
+        });
+    }
+}
+
+/**
+ * Element IDs must be unique within a document
+ */
+function checkDuplicateIds(doc: Document, path: string, report: InspectionReport) {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+
+    Array.from(doc.querySelectorAll('[id]')).forEach(el => {
+        const id = el.getAttribute('id') || '';
+        if (seen.has(id)) {
+            duplicates.add(id);
+        }
+        seen.add(id);
+    });
+
+    if (duplicates.size > 0) {
+        report.issues.push({
+            severity: 'warning',
+            check: 'Duplicate IDs',
+            message: `Duplicate IDs: ${Array.from(duplicates).join(', ')}`,
+            location: path
+        });
+    }
+}
+
+/**
+ * TOC entries must point at manifest documents, and fragments at existing IDs
+ */
+function checkToc(epubContent: EpubContent, documents: Map<string, Document>, report: InspectionReport) {
+    // Nav hrefs are decoded by the parser and manifest hrefs are not, so both are decoded to compare them
+    const manifestHrefs = new Map<string, string>();
+    Object.values(epubContent.manifest).forEach(item => manifestHrefs.set(decodeHref(item.href), item.href));
+
+    const visit = (navPoints: EpubNavPoint[]) => {
+        for (const navPoint of navPoints) {
+            if (navPoint.href) {
+                const [path, fragment] = navPoint.href.split('#');
+                const manifestHref = manifestHrefs.get(decodeHref(path));
+
+                if (!manifestHref) {
+                    report.issues.push({
+                        severity: 'error',
+                        check: 'Dangling TOC link',
+                        message: `"${navPoint.label}" points to ${path}, which is not in the manifest`,
+                        location: navPoint.href
+                    });
+                } else if (fragment) {
+                    const doc = documents.get(manifestHref);
+                    if (doc && !doc.querySelector(`[id="${fragment.replace(/"/g, '\\"')}"]`)) {
+                        report.issues.push({
+                            severity: 'warning',
+                            check: 'Dangling TOC link',
+                            message: `"${navPoint.label}" points to #${fragment}, which does not exist in ${path}`,
+                            location: navPoint.href
+                        });
+                    }
+                }
+            }
+
+            visit(navPoint.children);
+        }
+    };
+
+    visit(epubContent.navPoints);
+}
+
+/**
+ * Decode percent-encoding in an href, keeping it as written if it is not valid
+ */
+function decodeHref(href: string): string {
+    try {
+        return decodeURIComponent(href);
+    } catch (e) {
+        return href;
+    }
+}
+
+/**
+ * Images must exist and look like the image format they claim to be
+ */
+async function checkImages(epubContent: EpubContent, documents: Map<string, Document>, report: InspectionReport) {
+    for (const item of Object.values(epubContent.manifest)) {
+        if (!item.mediaType.startsWith('image/')) continue;
+
+        const data = epubContent.hasFile(item.href) ? await epubContent.getResource(item.href) : null;
+        if (!data || data.length === 0) {
+            report.issues.push({
+                severity: 'error',
+                check: 'Unreadable image',
+                message: `Image ${item.href} is missing or empty`,
+                location: item.href
+            });
+        } else if (!matchesImageSignature(data, item.mediaType)) {
+            report.issues.push({
+                severity: 'warning',
+                check: 'Unreadable image',
+                message: `Image ${item.href} does not look like ${item.mediaType}`,
+                location: item.href
+            });
+        }
+    }
+
+    // Images referenced from documents must exist in the archive
+    documents.forEach((doc, path) => {
+        Array.from(doc.querySelectorAll('img[src]')).forEach(img => {
+            const src = img.getAttribute('src') || '';
+            if (/^(?:[a-z]+:|#)/i.test(src)) return;
+
+            let imagePath = src;
+            try {
+                imagePath = resolveRelativePath(decodeURIComponent(src.split('#')[0]), path);
+            } catch (e) {
+                // Check the src as written
+            }
+
+            if (!epubContent.hasFile(imagePath)) {
+                report.issues.push({
+                    severity: 'error',
+                    check: 'Unreadable image',
+                    message: `Image ${src} referenced here is missing from the archive`,
+                    location: path
+                });
+            }
+        });
+    });
+}
+
+function matchesImageSignature(data: Uint8Array, mediaType: string): boolean {
+    const startsWith = (...bytes: number[]) => bytes.every((byte, i) => data[i] === byte);
+
+    switch (mediaType) {
+        case 'image/jpeg':
+            return startsWith(0xff, 0xd8);
+        case 'image/png':
+            return startsWith(0x89, 0x50, 0x4e, 0x47);
+        case 'image/gif':
+            return startsWith(0x47, 0x49, 0x46, 0x38);
+        case 'image/webp':
+            return startsWith(0x52, 0x49, 0x46, 0x46) && data[8] === 0x57 && data[9] === 0x45;
+        case 'image/svg+xml':
+            return new TextDecoder('utf-8').decode(data.subarray(0, 1024)).includes('<svg');
+        default:
+            return true;
+    }
+}
+
+function countNavPoints(navPoints: EpubNavPoint[]): number {
+    return navPoints.reduce((count, navPoint) => count + 1 + countNavPoints(navPoint.children), 0);
+}
+
+/**
+ * Format an inspection report as Markdown
+ */
+export function formatInspectionReport(report: InspectionReport, headingLevel: number = 1): string {
+    const heading = '#'.repeat(headingLevel);
+    const errors = report.issues.filter(issue => issue.severity === 'error').length;
+    const warnings = report.issues.length - errors;
+
+    const lines = [
+        `${heading} ${report.title}`,
+        '',
+        `- File: \`${report.path}\``,
+        `- Inspected: ${new Date(report.inspectedAt).toLocaleString()}`,
+        `- Spine items: ${report.stats.spineItems}, manifest items: ${report.stats.manifestItems}, TOC entries: ${report.stats.tocEntries}, images: ${report.stats.images}`,
+        `- Result: ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`,
+        ''
+    ];
+
+    if (report.issues.length === 0) {
+        lines.push('No problems found.', '');
+        return lines.join('\n');
+    }
+
+    // Group issues by check
+    const checks = new Map<string, InspectionIssue[]>();
+    for (const issue of report.issues) {
+        if (!checks.has(issue.check)) {
+            checks.set(issue.check, []);
+        }
+        checks.get(issue.check)?.push(issue);
+    }
+
+    checks.forEach((issues, check) => {
+        lines.push(`${heading}# ${check}`, '');
+        for (const issue of issues) {
+            const location = issue.location ? ` (\`${issue.location}\`)` : '';
+            lines.push(`- **${issue.severity === 'error' ? 'Error' : 'Warning'}:** ${issue.message}${location}`);
+        }
+        lines.push('');
+    });
+
+    return lines.join('\n');
+}
@@ -1,16 +1,37 @@
 import * as JSZip from 'jszip';
 import { parseXml } from './utils';
+import { parseEncryptionXml, isFontObfuscation, deobfuscateFont, detectDrm } from './encryption';
+import { CorruptZipError, DrmProtectedError, DrmScheme, EmptySpineError, MissingContainerError, MissingOpfError } from './epubErrors';
+import { MediaOverlayClip, parseSmil } from './mediaOverlay';
 
 export interface EpubMetadata {
     title?: string;
-    creator?: string;
+    creator?: string; // Name of the first creator
     publisher?: string;
     language?: string;
-    identifier?: string;
+    identifier?: string; // The package's unique identifier
     description?: string;
     published?: string;
     modified?: string;
     rights?: string;
+    creators?: EpubContributor[];
+    contributors?: EpubContributor[];
+    subjects?: string[];
+    series?: string;
+    seriesIndex?: number;
+    identifiers?: EpubIdentifier[];
+    isbn?: string;
+}
+
+export interface EpubContributor {
+    name: string;
+    fileAs?: string;
+    role?: string; // MARC relator code, e.g. "aut", "edt", "ill", "trl"
+}
+
+export interface EpubIdentifier {
+    value: string;
+    type?: string; // Normalized scheme, e.g. "isbn", "uuid", "doi", "asin"
 }
 
 export interface EpubNavPoint {
@@ -19,54 +40,376 @@ export interface EpubNavPoint {
     href: string;
     order: number;
     children: EpubNavPoint[];
+    hidden?: boolean; // EPUB 3 nav entries marked with the hidden attribute
 }
 
 export interface EpubSpine {
-    items: string[];
+    items: string[]; // IDs of all spine items in reading order
+    itemRefs: EpubSpineItem[];
     toc: string;
+    pageProgressionDirection: 'ltr' | 'rtl' | 'default';
+}
+
+export interface EpubSpineItem {
+    idref: string;
+    linear: boolean; // False for auxiliary content such as footnotes and answer keys
+    properties: string[]; // e.g. "page-spread-left", "rendition:layout-pre-paginated"
+}
+
+/**
+ * Package-wide rendition:* properties (EPUB 3 Fixed Layout)
+ */
+export interface EpubRendition {
+    layout: 'reflowable' | 'pre-paginated';
+    orientation: 'auto' | 'landscape' | 'portrait';
+    spread: 'auto' | 'none' | 'landscape' | 'portrait' | 'both';
+    flow?: string;
 }
 
 export interface EpubManifestItem {
     id: string;
     href: string;
     mediaType: string;
+    properties: string[];
+    mediaOverlay?: string; // ID of the SMIL document that narrates this item
 }
 
-export interface EpubContent {
+/**
+ * The parsed OPF package of an EPUB: metadata, manifest, spine and cover location
+ */
+export interface EpubPackage {
     metadata: EpubMetadata;
     spine: EpubSpine;
     manifest: Record<string, EpubManifestItem>;
-    navPoints: EpubNavPoint[];
+    rendition: EpubRendition;
     coverPath?: string;
-    coverData?: Uint8Array;
-    content: Record<string, string>;
-    resources: Record<string, Uint8Array>; // Store all binary resources
     basePath: string; // Store the OPF directory for resolving relative paths
+    encryption: Record<string, string>; // Encryption algorithm by archive path, from META-INF/encryption.xml
+    drm?: DrmScheme;
+    mediaActiveClass?: string; // Class the publisher styles the narrated element with, from media:active-class
+}
+
+/**
+ * Result of a metadata-only parse, used by the library when importing books
+ */
+export interface EpubInfo extends EpubPackage {
+    coverData?: Uint8Array;
+}
+
+// Number of processed chapters kept in memory per open book
+const CHAPTER_CACHE_SIZE = 10;
+
+/**
+ * An open EPUB backed by its zip archive. Chapters and resources are only
+ * decompressed when they are requested.
+ */
+export class EpubContent implements EpubPackage {
+    metadata: EpubMetadata;
+    spine: EpubSpine;
+    manifest: Record<string, EpubManifestItem>;
+    rendition: EpubRendition;
+    navPoints: EpubNavPoint[];
+    coverPath?: string;
+    basePath: string;
+    encryption: Record<string, string>;
+    mediaActiveClass?: string;
+    
+    private zip: JSZip;
+    private chapterCache: Map<string, string> = new Map();
+    private mediaOverlayCache: Map<string, MediaOverlayClip[]> = new Map();
+    
+    constructor(zip: JSZip, pkg: EpubPackage, navPoints: EpubNavPoint[]) {
+        this.zip = zip;
+        this.metadata = pkg.metadata;
+        this.spine = pkg.spine;
+        this.manifest = pkg.manifest;
+        this.rendition = pkg.rendition;
+        this.coverPath = pkg.coverPath;
+        this.basePath = pkg.basePath;
+        this.encryption = pkg.encryption;
+        this.mediaActiveClass = pkg.mediaActiveClass;
+        this.navPoints = navPoints;
+    }
+    
+    /**
+     * Check whether a spine item is part of the linear reading order
+     */
+    isLinear(itemId: string): boolean {
+        const itemRef = this.spine.itemRefs.find(itemRef => itemRef.idref === itemId);
+        return itemRef ? itemRef.linear : true;
+    }
+    
+    /**
+     * Get the layout of a spine item, which may override the package-wide rendition:layout
+     */
+    getLayout(itemId: string): EpubRendition['layout'] {
+        const properties = this.spine.itemRefs.find(itemRef => itemRef.idref === itemId)?.properties || [];
+        if (properties.includes('rendition:layout-pre-paginated')) return 'pre-paginated';
+        if (properties.includes('rendition:layout-reflowable')) return 'reflowable';
+        return this.rendition.layout;
+    }
+    
+    /**
+     * Get the side of a synthetic spread a fixed-layout page asks to be placed on
+     */
+    getSpreadPosition(itemId: string): 'left' | 'right' | 'center' | undefined {
+        const properties = this.spine.itemRefs.find(itemRef => itemRef.idref === itemId)?.properties || [];
+        if (properties.includes('page-spread-left') || properties.includes('rendition:page-spread-left')) return 'left';
+        if (properties.includes('page-spread-right') || properties.includes('rendition:page-spread-right')) return 'right';
+        if (properties.includes('rendition:page-spread-center')) return 'center';
+        return undefined;
+    }
+    
+    /**
+     * Get the table of contents label of a spine item: the first entry pointing into its document
+     */
+    getChapterLabel(itemId: string): string | null {
+        const href = this.manifest[itemId]?.href;
+        if (!href) return null;
+        
+        const find = (navPoints: EpubNavPoint[]): EpubNavPoint | null => {
+            for (const navPoint of navPoints) {
+                if (navPoint.href.split('#')[0] === href) return navPoint;
+                const child = find(navPoint.children);
+                if (child) return child;
+            }
+            return null;
+        };
+        return find(this.navPoints)?.label.trim() || null;
+    }
+    
+    /**
+     * Check whether a file exists in the archive
+     */
+    hasFile(path: string): boolean {
+        return !!this.zip.file(path);
+    }
+    
+    /**
+     * Check whether a manifest item is an HTML document present in the archive
+     */
+    hasChapter(itemId: string): boolean {
+        const item = this.manifest[itemId];
+        return !!item && isHtmlType(item.mediaType) && !!this.zip.file(item.href);
+    }
+    
+    /**
+     * Load and process the HTML of a manifest item
+     */
+    async getChapter(itemId: string): Promise<string | null> {
+        const cached = this.chapterCache.get(itemId);
+        if (cached !== undefined) {
+            // Move to the end so the most recently used chapters are evicted last
+            this.chapterCache.delete(itemId);
+            this.chapterCache.set(itemId, cached);
+            return cached;
+        }
+        
+        const item = this.manifest[itemId];
+        if (!item || !isHtmlType(item.mediaType)) return null;
+        
+        let html: string;
+        try {
+            const htmlContent = await this.zip.file(item.href)?.async('string');
+            if (!htmlContent) return null;
+            
+            // Process HTML to handle relative paths
+            html = processHtml(htmlContent, item.href, this.basePath, this.manifest);
+        } catch (e) {
+            console.error(`Error extracting HTML content ${item.href}:`, e);
+            return `<p>Error loading content: ${e.message}</p>`;
+        }
+        
+        this.chapterCache.set(itemId, html);
+        if (this.chapterCache.size > CHAPTER_CACHE_SIZE) {
+            const oldest = this.chapterCache.keys().next().value;
+            this.chapterCache.delete(oldest);
+        }
+        
+        return html;
+    }
+    
+    /**
+     * Check whether a manifest item has a media overlay
+     */
+    hasMediaOverlay(itemId: string): boolean {
+        const overlayId = this.manifest[itemId]?.mediaOverlay;
+        return !!overlayId && !!this.manifest[overlayId];
+    }
+    
+    /**
+     * Load the media overlay clips that narrate a manifest item
+     */
+    async getMediaOverlay(itemId: string): Promise<MediaOverlayClip[]> {
+        const overlayItem = this.manifest[this.manifest[itemId]?.mediaOverlay || ''];
+        if (!overlayItem) return [];
+        
+        const cached = this.mediaOverlayCache.get(overlayItem.id);
+        if (cached) return cached;
+        
+        let clips: MediaOverlayClip[] = [];
+        try {
+            const smil = await this.getText(overlayItem.href);
+            if (smil) {
+                clips = parseSmil(smil, overlayItem.href);
+            }
+        } catch (e) {
+            console.error(`Error parsing media overlay ${overlayItem.href}:`, e);
+        }
+        
+        this.mediaOverlayCache.set(overlayItem.id, clips);
+        return clips;
+    }
+    
+    /**
+     * Load a binary resource by its full path inside the archive
+     */
+    async getResource(path: string): Promise<Uint8Array | null> {
+        let file = this.zip.file(path);
+        
+        if (!file) {
+            // Fall back to a manifest item with the same file name
+            const fileName = path.split('/').pop() || '';
+            const item = Object.values(this.manifest).find(item => item.href.endsWith(`/${fileName}`) || item.href === fileName);
+            if (item) {
+                file = this.zip.file(item.href);
+            }
+        }
+        
+        if (!file) return null;
+        
+        try {
+            const data = await file.async('uint8array');
+            
+            // Embedded fonts may be obfuscated, see META-INF/encryption.xml
+            const algorithm = this.encryption[file.name];
+            if (algorithm && isFontObfuscation(algorithm)) {
+                return await deobfuscateFont(data, algorithm, this.metadata);
+            }
+            return data;
+        } catch (e) {
+            console.error(`Error extracting resource ${path}:`, e);
+            return null;
+        }
+    }
+    
+    /**
+     * Load a text resource such as a stylesheet by its full path inside the archive
+     */
+    async getText(path: string): Promise<string | null> {
+        const data = await this.getResource(path);
+        return data ? new TextDecoder('utf-8').decode(data) : null;
+    }
+    
+    /**
+     * Get the media type of a resource from the manifest, guessing from the extension if needed
+     */
+    getMediaType(path: string): string {
+        const item = Object.values(this.manifest).find(item => item.href === path);
+        return item?.mediaType || guessMediaType(path);
+    }
+    
+    /**
+     * Load the cover image data, if the book has one
+     */
+    async getCoverData(): Promise<Uint8Array | undefined> {
+        if (!this.coverPath) return undefined;
+        return (await this.getResource(this.coverPath)) || undefined;
+    }
+    
+    /**
+     * Drop all cached chapters
+     */
+    clearCache(): void {
+        this.chapterCache.clear();
+        this.mediaOverlayCache.clear();
+    }
 }
 
 /**
- * Parse an EPUB file and extract its contents
+ * Open an EPUB file for reading. The archive stays open and content is loaded on demand.
+ * Throws an EpubParseError subclass when the book cannot be read.
  */
 export async function parseEpub(data: ArrayBuffer): Promise<EpubContent> {
-    // Load the epub file with JSZip
-    const zip = await JSZip.loadAsync(data);
+    const zip = await loadZip(data);
+    const pkg = await loadPackage(zip);
+    
+    if (pkg.drm) {
+        throw new DrmProtectedError(pkg.drm);
+    }
+    if (pkg.spine.items.length === 0) {
+        throw new EmptySpineError();
+    }
+    
+    // Find and parse the TOC, preferring the EPUB 3 navigation document over the NCX file
+    let navPoints: EpubNavPoint[] = [];
+    
+    const navItem = Object.values(pkg.manifest).find(item => item.properties.includes('nav'));
+    if (navItem) {
+        const navContent = await zip.file(navItem.href)?.async('string');
+        if (navContent) {
+            navPoints = parseNavDocument(parseXml(navContent), navItem.href);
+        }
+    }
+    
+    const tocHref = pkg.manifest[pkg.spine.toc]?.href;
+    if (navPoints.length === 0 && tocHref) {
+        const tocContent = await zip.file(tocHref)?.async('string');
+        if (tocContent) {
+            navPoints = parseNavPoints(parseXml(tocContent), tocHref);
+        }
+    }
     
+    return new EpubContent(zip, pkg, navPoints);
+}
+
+/**
+ * Parse only the package metadata and cover of an EPUB file, without touching its chapters.
+ * DRM-protected books are reported through the drm field rather than rejected.
+ */
+export async function parseEpubMetadata(data: ArrayBuffer): Promise<EpubInfo> {
+    const zip = await loadZip(data);
+    const pkg = await loadPackage(zip);
+    
+    let coverData: Uint8Array | undefined;
+    if (pkg.coverPath) {
+        coverData = await zip.file(pkg.coverPath)?.async('uint8array');
+    }
+    
+    return { ...pkg, coverData };
+}
+
+/**
+ * Open the zip archive of an EPUB file
+ */
+async function loadZip(data: ArrayBuffer): Promise<JSZip> {
+    try {
+        return await JSZip.loadAsync(data);
+    } catch (e) {
+        throw new CorruptZipError(e.message);
+    }
+}
+
+/**
+ * Locate and parse the OPF package document of an EPUB archive
+ */
+async function loadPackage(zip: JSZip): Promise<EpubPackage> {
     // Find and parse the container.xml to get the rootfile
     const containerXml = await zip.file('META-INF/container.xml')?.async('string');
     if (!containerXml) {
-        throw new Error('Invalid EPUB: Missing container.xml');
+        throw new MissingContainerError();
     }
     
     const containerDoc = parseXml(containerXml);
     const rootfilePath = containerDoc.querySelector('rootfile')?.getAttribute('full-path');
     if (!rootfilePath) {
-        throw new Error('Invalid EPUB: Unable to find rootfile path');
+        throw new MissingContainerError('Invalid EPUB: Unable to find rootfile path');
     }
     
     // Parse the rootfile (OPF file)
     const opfContent = await zip.file(rootfilePath)?.async('string');
     if (!opfContent) {
-        throw new Error(`Invalid EPUB: Missing OPF file at ${rootfilePath}`);
+        throw new MissingOpfError(rootfilePath);
     }
     
     const opfDoc = parseXml(opfContent);
@@ -78,82 +421,32 @@ export async function parseEpub(data: ArrayBuffer): Promise<EpubContent> {
     const metadata = parseMetadata(opfDoc);
     
     // Parse manifest items
-    const manifest = parseManifest(opfDoc, basePath);
+    const manifest = parseManifest(opfDoc, rootfilePath);
     
     // Parse spine (reading order)
     const spine = parseSpine(opfDoc);
     
-    // Find and parse the TOC (NCX file)
-    const tocHref = manifest[spine.toc]?.href;
-    let navPoints: EpubNavPoint[] = [];
-    
-    if (tocHref) {
-        const tocContent = await zip.file(tocHref)?.async('string');
-        if (tocContent) {
-            navPoints = parseNavPoints(parseXml(tocContent));
-        }
-    }
+    // Parse package-wide rendition properties
+    const rendition = parseRendition(opfDoc);
     
     // Find cover image
     const coverPath = findCoverPath(opfDoc, manifest);
-    let coverData: Uint8Array | undefined;
-    
-    if (coverPath) {
-        coverData = await zip.file(coverPath)?.async('uint8array');
-    }
     
-    // Load all HTML content and resources
-    const content: Record<string, string> = {};
-    const resources: Record<string, Uint8Array> = {};
+    // Class for the element currently narrated by a media overlay
+    const mediaActiveClass = opfDoc.querySelector('metadata meta[property="media:active-class"]')?.textContent?.trim() || undefined;
     
-    // First, load all resources
-    for (const item of Object.values(manifest)) {
-        // Extract images and other binary files
-        if (item.mediaType.startsWith('image/')) {
-            try {
-                const resource = await zip.file(item.href)?.async('uint8array');
-                if (resource) {
-                    resources[item.href] = resource;
-                    // Also store with the file name as key for easier lookup
-                    const fileName = item.href.split('/').pop() || '';
-                    if (fileName) {
-                        resources[fileName] = resource;
-                    }
-                }
-            } catch (e) {
-                console.error(`Error extracting resource ${item.href}:`, e);
-            }
-        }
+    // Read the list of encrypted and obfuscated resources, if any
+    let encryption: Record<string, string> = {};
+    const encryptionXml = await zip.file('META-INF/encryption.xml')?.async('string');
+    if (encryptionXml) {
+        encryption = parseEncryptionXml(encryptionXml);
     }
     
-    // Then load HTML content
-    for (const item of Object.values(manifest)) {
-        if (item.mediaType === 'application/xhtml+xml' || 
-            item.mediaType === 'text/html') {
-            try {
-                const htmlContent = await zip.file(item.href)?.async('string');
-                if (htmlContent) {
-                    // Process HTML to handle relative paths
-                    content[item.id] = processHtml(htmlContent, item.href, basePath, manifest);
-                }
-            } catch (e) {
-                console.error(`Error extracting HTML content ${item.href}:`, e);
-                content[item.id] = `<p>Error loading content: ${e.message}</p>`;
-            }
-        }
-    }
+    // Check for DRM
+    const rightsXml = await zip.file('META-INF/rights.xml')?.async('string') || null;
+    const drm = detectDrm(encryption, rightsXml, !!zip.file('META-INF/sinf.xml')) || undefined;
     
-    return {
-        metadata,
-        spine,
-        manifest,
-        navPoints,
-        coverPath,
-        coverData,
-        content,
-        resources,
-        basePath
-    };
+    return { metadata, spine, manifest, rendition, coverPath, basePath, encryption, drm, mediaActiveClass };
 }
 
 /**
@@ -181,6 +474,9 @@ function processHtml(html: string, htmlPath: string, basePath: string, manifest:
                 // Store the original src as a data attribute
                 img.setAttribute('data-original-src', src);
                 
+                // Store the full archive path so the reader can load the image on demand
+                img.setAttribute('data-resource-path', resolveRelativePath(decodeURIComponent(src.split('#')[0]), htmlPath));
+                
                 // Add a special class for the reader to identify EPUB images
                 img.classList.add('epub-image');
             }
@@ -193,6 +489,7 @@ function processHtml(html: string, htmlPath: string, basePath: string, manifest:
             if (href && !href.startsWith('http')) {
                 // Handle relative paths
                 link.setAttribute('data-original-href', href);
+                link.setAttribute('data-resource-path', resolveRelativePath(decodeURIComponent(href.split('#')[0]), htmlPath));
             }
         });
         
@@ -213,35 +510,213 @@ function parseMetadata(opfDoc: Document): EpubMetadata {
     if (!metadataEl) return {};
     
     const metadata: EpubMetadata = {};
+    const refinements = parseRefinements(metadataEl);
     
     // Dublin Core elements
-    const dcElements = ['title', 'creator', 'publisher', 'language', 'identifier', 'description', 'rights'];
+    const dcElements: Array<'title' | 'publisher' | 'language' | 'description' | 'rights'> = 
+        ['title', 'publisher', 'language', 'description', 'rights'];
     for (const el of dcElements) {
         const element = metadataEl.querySelector(`dc\\:${el}, *|${el}`);
         if (element?.textContent) {
-            metadata[el as keyof EpubMetadata] = element.textContent;
+            metadata[el] = element.textContent.trim();
+        }
+    }
+    
+    // Creators and contributors, with EPUB 2 opf:* attributes or EPUB 3 refinements
+    const creators = parseContributors(metadataEl, 'creator', refinements);
+    if (creators.length > 0) {
+        metadata.creators = creators;
+        metadata.creator = creators[0].name;
+    }
+    
+    const contributors = parseContributors(metadataEl, 'contributor', refinements);
+    if (contributors.length > 0) {
+        metadata.contributors = contributors;
+    }
+    
+    // Subjects
+    const subjects = Array.from(metadataEl.querySelectorAll('dc\\:subject, *|subject'))
+        .map(el => (el.textContent || '').trim())
+        .filter(subject => subject.length > 0);
+    if (subjects.length > 0) {
+        metadata.subjects = Array.from(new Set(subjects));
+    }
+    
+    // Identifiers, with the package's unique identifier as the primary one
+    const uniqueIdentifierId = opfDoc.documentElement?.getAttribute('unique-identifier');
+    const identifiers: EpubIdentifier[] = [];
+    Array.from(metadataEl.querySelectorAll('dc\\:identifier, *|identifier')).forEach(el => {
+        const value = (el.textContent || '').trim();
+        if (!value) return;
+        
+        const id = el.getAttribute('id');
+        const scheme = el.getAttribute('opf:scheme') || 
+            (id ? refinements[id]?.['identifier-type'] : undefined);
+        const identifier = parseIdentifier(value, scheme);
+        identifiers.push(identifier);
+        
+        if (id && id === uniqueIdentifierId) {
+            metadata.identifier = value;
+        }
+        if (identifier.type === 'isbn' && !metadata.isbn) {
+            metadata.isbn = identifier.value;
+        }
+    });
+    if (identifiers.length > 0) {
+        metadata.identifiers = identifiers;
+        if (!metadata.identifier) {
+            metadata.identifier = identifiers[0].value;
+        }
+    }
+    
+    // Series from EPUB 3 collections, falling back to Calibre's meta tags
+    const collections = Array.from(metadataEl.querySelectorAll('meta[property="belongs-to-collection"]'));
+    for (const collection of collections) {
+        const id = collection.getAttribute('id');
+        const refined = id ? refinements[id] || {} : {};
+        const collectionType = refined['collection-type'];
+        
+        if (collection.textContent && (!collectionType || collectionType === 'series')) {
+            metadata.series = collection.textContent.trim();
+            const position = parseFloat(refined['group-position'] || '');
+            if (!isNaN(position)) {
+                metadata.seriesIndex = position;
+            }
+            break;
+        }
+    }
+    
+    if (!metadata.series) {
+        const calibreSeries = metadataEl.querySelector('meta[name="calibre:series"]')?.getAttribute('content');
+        if (calibreSeries) {
+            metadata.series = calibreSeries.trim();
+            const index = parseFloat(metadataEl.querySelector('meta[name="calibre:series_index"]')?.getAttribute('content') || '');
+            if (!isNaN(index)) {
+                metadata.seriesIndex = index;
+            }
         }
     }
     
     // Publication date
     const pubDate = metadataEl.querySelector('dc\\:date, *|date');
     if (pubDate?.textContent) {
-        metadata.published = pubDate.textContent;
+        metadata.published = pubDate.textContent.trim();
     }
     
     // Modified date
     const modifiedEl = metadataEl.querySelector('meta[property="dcterms:modified"]');
     if (modifiedEl?.textContent) {
-        metadata.modified = modifiedEl.textContent;
+        metadata.modified = modifiedEl.textContent.trim();
     }
     
     return metadata;
 }
 
+/**
+ * Collect EPUB 3 <meta refines="#id" property="..."> values, keyed by the refined element ID
+ */
+function parseRefinements(metadataEl: Element): Record<string, Record<string, string>> {
+    const refinements: Record<string, Record<string, string>> = {};
+    
+    Array.from(metadataEl.querySelectorAll('meta[refines]')).forEach(meta => {
+        const refines = (meta.getAttribute('refines') || '').replace(/^#/, '');
+        const property = meta.getAttribute('property');
+        const value = (meta.textContent || '').trim();
+        
+        if (refines && property && value) {
+            if (!refinements[refines]) {
+                refinements[refines] = {};
+            }
+            // Keep the first value when a property is refined more than once
+            if (!(property in refinements[refines])) {
+                refinements[refines][property] = value;
+            }
+        }
+    });
+    
+    return refinements;
+}
+
+/**
+ * Parse dc:creator or dc:contributor elements
+ */
+function parseContributors(
+    metadataEl: Element,
+    elementName: 'creator' | 'contributor',
+    refinements: Record<string, Record<string, string>>
+): EpubContributor[] {
+    const contributors: EpubContributor[] = [];
+    
+    Array.from(metadataEl.querySelectorAll(`dc\\:${elementName}, *|${elementName}`)).forEach(el => {
+        const name = (el.textContent || '').trim();
+        if (!name) return;
+        
+        const id = el.getAttribute('id');
+        const refined = id ? refinements[id] || {} : {};
+        
+        const contributor: EpubContributor = { name };
+        const fileAs = el.getAttribute('opf:file-as') || refined['file-as'];
+        const role = el.getAttribute('opf:role') || refined['role'];
+        if (fileAs) {
+            contributor.fileAs = fileAs;
+        }
+        if (role) {
+            contributor.role = role.toLowerCase();
+        }
+        
+        contributors.push(contributor);
+    });
+    
+    return contributors;
+}
+
+/**
+ * Determine the type of an identifier from its declared scheme or its value
+ */
+function parseIdentifier(value: string, scheme?: string | null): EpubIdentifier {
+    const lowerScheme = (scheme || '').toLowerCase();
+    
+    // urn:isbn:..., urn:uuid:..., urn:doi:... and similar prefixes
+    const urnMatch = value.match(/^urn:([a-z]+):(.+)$/i);
+    if (urnMatch) {
+        const type = urnMatch[1].toLowerCase();
+        return { value: type === 'isbn' ? normalizeIsbn(urnMatch[2]) : urnMatch[2], type };
+    }
+    
+    // ONIX codelist 5 values used by EPUB 3 identifier-type refinements: 02 = ISBN-10, 15 = ISBN-13
+    if (lowerScheme === 'isbn' || lowerScheme === '02' || lowerScheme === '15') {
+        return { value: normalizeIsbn(value), type: 'isbn' };
+    }
+    if (lowerScheme === '06') {
+        return { value, type: 'doi' };
+    }
+    if (lowerScheme) {
+        return { value, type: lowerScheme };
+    }
+    
+    // Recognize unlabelled ISBNs and UUIDs by their shape
+    const isbn = normalizeIsbn(value.replace(/^isbn:?\s*/i, ''));
+    if (/^(97[89]\d{10}|\d{9}[\dX])$/.test(isbn)) {
+        return { value: isbn, type: 'isbn' };
+    }
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        return { value, type: 'uuid' };
+    }
+    
+    return { value };
+}
+
+/**
+ * Strip separators from an ISBN
+ */
+function normalizeIsbn(isbn: string): string {
+    return isbn.replace(/[\s-]/g, '').toUpperCase();
+}
+
 /**
  * Parse the manifest section of the OPF file
  */
-function parseManifest(opfDoc: Document, basePath: string): Record<string, EpubManifestItem> {
+function parseManifest(opfDoc: Document, opfPath: string): Record<string, EpubManifestItem> {
     const manifestItems: Record<string, EpubManifestItem> = {};
     const items = opfDoc.querySelectorAll('manifest item');
     
@@ -250,15 +725,19 @@ function parseManifest(opfDoc: Document, basePath: string): Record<string, EpubM
         const id = item.getAttribute('id');
         const href = item.getAttribute('href');
         const mediaType = item.getAttribute('media-type');
+        const properties = item.getAttribute('properties') || '';
+        const mediaOverlay = item.getAttribute('media-overlay') || undefined;
         
         if (id && href && mediaType) {
             // Resolve the path relative to the OPF file
-            const fullHref = resolveRelativePath(href, basePath);
+            const fullHref = resolveRelativePath(href, opfPath);
             
             manifestItems[id] = {
                 id,
                 href: fullHref,
-                mediaType
+                mediaType,
+                properties: properties.split(/\s+/).filter(p => p.length > 0),
+                mediaOverlay
             };
         }
     });
@@ -267,9 +746,9 @@ function parseManifest(opfDoc: Document, basePath: string): Record<string, EpubM
 }
 
 /**
- * Resolve a relative path against a base path
+ * Resolve a relative path against the path of the file that references it
  */
-function resolveRelativePath(relativePath: string, basePath: string): string {
+export function resolveRelativePath(relativePath: string, basePath: string): string {
     // Handle absolute paths
     if (relativePath.startsWith('/')) {
         return relativePath.substring(1); // Remove leading slash
@@ -308,30 +787,77 @@ function resolveRelativePath(relativePath: string, basePath: string): string {
 function parseSpine(opfDoc: Document): EpubSpine {
     const spineEl = opfDoc.querySelector('spine');
     const items: string[] = [];
+    const itemRefs: EpubSpineItem[] = [];
     let toc = '';
+    let pageProgressionDirection: EpubSpine['pageProgressionDirection'] = 'default';
     
     if (spineEl) {
         // Get the TOC attribute
         toc = spineEl.getAttribute('toc') || '';
         
-        // Get all itemref elements and their idref attributes
-        const itemRefs = spineEl.querySelectorAll('itemref');
+        const direction = spineEl.getAttribute('page-progression-direction');
+        if (direction === 'ltr' || direction === 'rtl') {
+            pageProgressionDirection = direction;
+        }
+        
+        // Get all itemref elements with their linear and properties attributes
+        const itemRefElements = spineEl.querySelectorAll('itemref');
         // Convert NodeList to Array before iterating
-        Array.from(itemRefs).forEach(item => {
+        Array.from(itemRefElements).forEach(item => {
             const idref = item.getAttribute('idref');
             if (idref) {
                 items.push(idref);
+                itemRefs.push({
+                    idref,
+                    linear: item.getAttribute('linear') !== 'no',
+                    properties: (item.getAttribute('properties') || '').split(/\s+/).filter(p => p.length > 0)
+                });
             }
         });
     }
     
-    return { items, toc };
+    return { items, itemRefs, toc, pageProgressionDirection };
+}
+
+/**
+ * Parse the package-wide rendition:* meta properties
+ */
+function parseRendition(opfDoc: Document): EpubRendition {
+    const rendition: EpubRendition = {
+        layout: 'reflowable',
+        orientation: 'auto',
+        spread: 'auto'
+    };
+    
+    const getProperty = (name: string) => 
+        opfDoc.querySelector(`metadata meta[property="rendition:${name}"]`)?.textContent?.trim();
+    
+    if (getProperty('layout') === 'pre-paginated') {
+        rendition.layout = 'pre-paginated';
+    }
+    
+    const orientation = getProperty('orientation');
+    if (orientation === 'landscape' || orientation === 'portrait') {
+        rendition.orientation = orientation;
+    }
+    
+    const spread = getProperty('spread');
+    if (spread === 'none' || spread === 'landscape' || spread === 'portrait' || spread === 'both') {
+        rendition.spread = spread;
+    }
+    
+    const flow = getProperty('flow');
+    if (flow) {
+        rendition.flow = flow;
+    }
+    
+    return rendition;
 }
 
 /**
  * Parse the navigation points from the NCX file
  */
-function parseNavPoints(ncxDoc: Document): EpubNavPoint[] {
+function parseNavPoints(ncxDoc: Document, ncxPath: string): EpubNavPoint[] {
     const navPoints: EpubNavPoint[] = [];
     const navMap = ncxDoc.querySelector('navMap');
     
@@ -339,7 +865,7 @@ function parseNavPoints(ncxDoc: Document): EpubNavPoint[] {
         const navPointElements = navMap.querySelectorAll('navPoint');
         // Convert NodeList to Array before iterating
         Array.from(navPointElements).forEach(el => {
-            const navPoint = parseNavPoint(el);
+            const navPoint = parseNavPoint(el, ncxPath);
             if (navPoint) {
                 navPoints.push(navPoint);
             }
@@ -352,7 +878,7 @@ function parseNavPoints(ncxDoc: Document): EpubNavPoint[] {
 /**
  * Parse a single navigation point from the NCX file
  */
-function parseNavPoint(element: Element): EpubNavPoint | null {
+function parseNavPoint(element: Element, ncxPath: string): EpubNavPoint | null {
     const id = element.getAttribute('id');
     const playOrder = element.getAttribute('playOrder');
     const labelEl = element.querySelector('navLabel text');
@@ -363,7 +889,7 @@ function parseNavPoint(element: Element): EpubNavPoint | null {
     }
     
     const label = labelEl.textContent;
-    const href = contentEl.getAttribute('src') || '';
+    const href = resolveNavHref(contentEl.getAttribute('src') || '', ncxPath);
     const order = playOrder ? parseInt(playOrder, 10) : 0;
     
     // Parse child nav points
@@ -371,7 +897,7 @@ function parseNavPoint(element: Element): EpubNavPoint | null {
     const childElements = element.querySelectorAll(':scope > navPoint');
     // Convert NodeList to Array before iterating
     Array.from(childElements).forEach(el => {
-        const childNavPoint = parseNavPoint(el);
+        const childNavPoint = parseNavPoint(el, ncxPath);
         if (childNavPoint) {
             children.push(childNavPoint);
         }
@@ -386,6 +912,88 @@ function parseNavPoint(element: Element): EpubNavPoint | null {
     };
 }
 
+/**
+ * Parse the table of contents from an EPUB 3 navigation document
+ */
+function parseNavDocument(navDoc: Document, navPath: string): EpubNavPoint[] {
+    const navElements = Array.from(navDoc.querySelectorAll('nav'));
+    
+    // The TOC is the nav with epub:type="toc"; fall back to the first nav in the document
+    const tocNav = navElements.find(nav => 
+        (nav.getAttribute('epub:type') || '').split(/\s+/).includes('toc')
+    ) || navElements[0];
+    
+    if (!tocNav) return [];
+    
+    const rootList = Array.from(tocNav.children).find(child => child.localName === 'ol');
+    if (!rootList) return [];
+    
+    const counter = { order: 0 };
+    return parseNavList(rootList, navPath, counter, tocNav.hasAttribute('hidden'));
+}
+
+/**
+ * Parse an <ol> of a navigation document into nav points, recursing into nested lists
+ */
+function parseNavList(listEl: Element, navPath: string, counter: { order: number }, hidden: boolean): EpubNavPoint[] {
+    const navPoints: EpubNavPoint[] = [];
+    const listHidden = hidden || listEl.hasAttribute('hidden');
+    
+    Array.from(listEl.children).forEach(li => {
+        if (li.localName !== 'li') return;
+        
+        // Each entry is an <a> link or, for unlinked headings, a <span>
+        const labelEl = Array.from(li.children).find(child => 
+            child.localName === 'a' || child.localName === 'span'
+        );
+        if (!labelEl) return;
+        
+        const label = (labelEl.textContent || labelEl.getAttribute('title') || '').replace(/\s+/g, ' ').trim();
+        const rawHref = labelEl.localName === 'a' ? labelEl.getAttribute('href') || '' : '';
+        const order = ++counter.order;
+        const entryHidden = listHidden || li.hasAttribute('hidden');
+        
+        const href = resolveNavHref(rawHref, navPath);
+        
+        const childList = Array.from(li.children).find(child => child.localName === 'ol');
+        const children = childList ? parseNavList(childList, navPath, counter, entryHidden) : [];
+        
+        if (!label && children.length === 0) return;
+        
+        const navPoint: EpubNavPoint = {
+            id: li.getAttribute('id') || `nav-${order}`,
+            label,
+            href,
+            order,
+            children
+        };
+        if (entryHidden) {
+            navPoint.hidden = true;
+        }
+        
+        navPoints.push(navPoint);
+    });
+    
+    return navPoints;
+}
+
+/**
+ * Resolve a TOC href, which is relative to the TOC document, to a full archive path keeping its fragment
+ */
+function resolveNavHref(rawHref: string, tocPath: string): string {
+    if (!rawHref) return '';
+    
+    const [path, fragment] = rawHref.split('#');
+    let href = path;
+    try {
+        href = path ? resolveRelativePath(decodeURIComponent(path), tocPath) : tocPath;
+    } catch (e) {
+        console.error(`Invalid TOC href ${rawHref}:`, e);
+    }
+    
+    return fragment ? `${href}#${fragment}` : href;
+}
+
 /**
  * Find the cover image path
  */
@@ -436,6 +1044,52 @@ function findCoverPath(opfDoc: Document, manifest: Record<string, EpubManifestIt
     return undefined;
 }
 
+/**
+ * Check if a media type is an HTML document
+ */
+export function isHtmlType(mediaType: string): boolean {
+    return mediaType === 'application/xhtml+xml' || mediaType === 'text/html';
+}
+
+/**
+ * Guess a media type from a file extension
+ */
+function guessMediaType(path: string): string {
+    const extension = path.split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'jpg':
+        case 'jpeg':
+            return 'image/jpeg';
+        case 'png':
+            return 'image/png';
+        case 'gif':
+            return 'image/gif';
+        case 'svg':
+            return 'image/svg+xml';
+        case 'webp':
+            return 'image/webp';
+        case 'css':
+            return 'text/css';
+        case 'ttf':
+            return 'font/ttf';
+        case 'otf':
+            return 'font/otf';
+        case 'woff':
+            return 'font/woff';
+        case 'woff2':
+            return 'font/woff2';
+        case 'mp3':
+            return 'audio/mpeg';
+        case 'm4a':
+        case 'mp4':
+            return 'audio/mp4';
+        case 'smil':
+            return 'application/smil+xml';
+        default:
+            return 'application/octet-stream';
+    }
+}
+
 /**
  * Check if a media type is an image
  */
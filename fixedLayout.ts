@@ -0,0 +1,121 @@
+import { EpubContent } from './epubParser';
+
+/**
+ * Size of a fixed-layout page in CSS pixels
+ */
+export interface PageViewport {
+    width: number;
+    height: number;
+}
+
+// Used when a pre-paginated document declares no usable viewport
+export const DEFAULT_VIEWPORT: PageViewport = { width: 1200, height: 1600 };
+
+/**
+ * Read the page size of a fixed-layout document from its viewport meta tag,
+ * falling back to the viewBox of an SVG page
+ */
+export function parseViewport(html: string): PageViewport | null {
+    const metaMatch = html.match(/<meta\s[^>]*name\s*=\s*["']viewport["'][^>]*>/i);
+    if (metaMatch) {
+        const content = metaMatch[0].match(/content\s*=\s*["']([^"']*)["']/i)?.[1] || '';
+        const width = parseFloat(content.match(/width\s*=\s*([\d.]+)/i)?.[1] || '');
+        const height = parseFloat(content.match(/height\s*=\s*([\d.]+)/i)?.[1] || '');
+        if (width > 0 && height > 0) {
+            return { width, height };
+        }
+    }
+
+    const viewBoxMatch = html.match(/<svg\s[^>]*viewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/i);
+    if (viewBoxMatch) {
+        const width = parseFloat(viewBoxMatch[1]);
+        const height = parseFloat(viewBoxMatch[2]);
+        if (width > 0 && height > 0) {
+            return { width, height };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Whether synthetic spreads should be shown for the book at the given leaf size
+ */
+export function shouldUseSpreads(epubContent: EpubContent, available: PageViewport): boolean {
+    const landscape = available.width > available.height;
+
+    switch (epubContent.rendition.spread) {
+        case 'none':
+            return false;
+        case 'both':
+        case 'portrait':
+            return true;
+        default:
+            return landscape;
+    }
+}
+
+/**
+ * Get the spine items shown together with the given fixed-layout item, in reading order.
+ * Pages are paired using their page-spread-* properties, with the first page shown alone.
+ */
+export function getSpread(epubContent: EpubContent, itemId: string, useSpreads: boolean): string[] {
+    if (!useSpreads) return [itemId];
+
+    // Find the run of consecutive linear fixed-layout pages that contains the item
+    const items = epubContent.spine.items;
+    const index = items.indexOf(itemId);
+    if (index === -1) return [itemId];
+
+    const isPage = (id: string) => epubContent.getLayout(id) === 'pre-paginated' && epubContent.isLinear(id);
+    if (!isPage(itemId)) return [itemId];
+
+    let start = index;
+    while (start > 0 && isPage(items[start - 1])) start--;
+    let end = index;
+    while (end < items.length - 1 && isPage(items[end + 1])) end++;
+
+    // The first page of a spread sits on the left in left-to-right books
+    const firstSide = epubContent.spine.pageProgressionDirection === 'rtl' ? 'right' : 'left';
+    const spreads: string[][] = [];
+    let current: string[] = [];
+
+    for (let i = start; i <= end; i++) {
+        const id = items[i];
+        const position = epubContent.getSpreadPosition(id);
+
+        // Centered pages and an unlabelled opening page stand alone
+        if (position === 'center' || (i === start && !position)) {
+            if (current.length > 0) spreads.push(current);
+            spreads.push([id]);
+            current = [];
+        } else if (current.length === 0) {
+            if (position && position !== firstSide) {
+                spreads.push([id]);
+            } else {
+                current = [id];
+            }
+        } else if (position === firstSide) {
+            spreads.push(current);
+            current = [id];
+        } else {
+            current.push(id);
+            spreads.push(current);
+            current = [];
+        }
+    }
+    if (current.length > 0) spreads.push(current);
+
+    return spreads.find(spread => spread.includes(itemId)) || [itemId];
+}
+
+/**
+ * Scale factor that fits pages laid out side by side into the available area
+ */
+export function fitScale(pages: PageViewport[], available: PageViewport): number {
+    const totalWidth = pages.reduce((sum, page) => sum + page.width, 0);
+    const maxHeight = Math.max(...pages.map(page => page.height));
+    if (totalWidth <= 0 || maxHeight <= 0) return 1;
+
+    return Math.min(available.width / totalWidth, available.height / maxHeight);
+}
@@ -0,0 +1,71 @@
+import { parseXml } from './utils';
+
+// epub:type values and ARIA roles of individual notes
+const NOTE_TYPES = ['footnote', 'endnote', 'rearnote', 'note'];
+const NOTE_ROLES = ['doc-footnote', 'doc-endnote'];
+
+// epub:type values and ARIA roles of collections of notes
+const NOTES_SECTION_TYPES = ['footnotes', 'endnotes', 'rearnotes'];
+const NOTES_SECTION_ROLES = ['doc-endnotes', 'doc-footnotes'];
+
+/**
+ * Get the space-separated epub:type values of an element
+ */
+export function getEpubTypes(el: Element): string[] {
+    return (el.getAttribute('epub:type') || '').split(/\s+/).filter(type => type.length > 0);
+}
+
+/**
+ * Check whether a link points to a footnote or endnote
+ */
+export function isNoteref(link: Element): boolean {
+    return getEpubTypes(link).includes('noteref') || link.getAttribute('role') === 'doc-noteref';
+}
+
+/**
+ * Find the element holding the note a noteref points to. When the ID sits on an
+ * inline anchor inside the note, the enclosing note or block is returned instead.
+ */
+export function findNoteElement(root: ParentNode, id: string): Element | null {
+    const target = root.querySelector(`[id="${id.replace(/["\\]/g, '\\$&')}"]`);
+    if (!target) return null;
+
+    let el: Element | null = target;
+    while (el) {
+        if (isNote(el)) return el;
+        el = el.parentElement;
+    }
+
+    if (/^(a|span|sup|sub|b|i|em|strong)$/i.test(target.localName)) {
+        return target.closest('li, p, dd, div, aside, section') || target;
+    }
+    return target;
+}
+
+/**
+ * Check whether a document contains nothing but notes, such as a separate endnotes file
+ */
+export function isNotesDocument(html: string): boolean {
+    const body = parseXml(html).getElementsByTagNameNS('*', 'body')[0];
+    return !!body && containsOnlyNotes(body);
+}
+
+function isNote(el: Element): boolean {
+    const role = el.getAttribute('role') || '';
+    return getEpubTypes(el).some(type => NOTE_TYPES.includes(type)) || NOTE_ROLES.includes(role);
+}
+
+function isNotesSection(el: Element): boolean {
+    const role = el.getAttribute('role') || '';
+    return getEpubTypes(el).some(type => NOTES_SECTION_TYPES.includes(type)) || NOTES_SECTION_ROLES.includes(role);
+}
+
+// An element holds only notes when it is a notes section, or all its content apart from headings is
+function containsOnlyNotes(el: Element): boolean {
+    if (isNotesSection(el)) return true;
+
+    const children = Array.from(el.children).filter(child => !/^h[1-6]$|^header$/i.test(child.localName));
+    if (children.length === 0) return false;
+
+    return children.every(child => isNote(child) || containsOnlyNotes(child));
+}
@@ -0,0 +1,473 @@
+import { TFile, debounce } from 'obsidian';
+import EbookReaderPlugin from './main';
+import { Book } from './libraryManager';
+import { parseEpub } from './epubParser';
+import { BookSearch, SearchMatch, createSearchPattern, findMatches, getMatchContext } from './bookSearch';
+
+// Bumped when the stored format changes, so indexes in an older format are rebuilt
+const INDEX_VERSION = 3;
+
+// Books whose passages are looked up and shown for a search
+const MAX_BOOK_RESULTS = 20;
+
+// Passages shown for each book
+const MAX_SNIPPETS = 3;
+
+// Chinese and Japanese are written without spaces between words, so each character is indexed on its own
+const CJK_CHAR = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]';
+const WORD_PATTERN = new RegExp(`${CJK_CHAR}|(?:(?!${CJK_CHAR})[\\p{L}\\p{N}])+`, 'gu');
+
+// BM25 ranking: how quickly repeats of a word stop adding to a book's score, and how much long books are discounted
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A book as recorded in the index
+interface IndexedBook {
+    doc: number; // Number standing for the book in the postings
+    path: string;
+    mtime: number;
+    size: number;
+    length: number; // Number of words
+    failed?: boolean; // Set when the book could not be read, so it is not retried until the file changes
+}
+
+interface IndexData {
+    version: number;
+    nextDoc: number;
+    books: Record<string, IndexedBook>;
+    terms: Record<string, number[]>;
+}
+
+// The text of a book, kept beside the index for showing passages
+interface BookText {
+    chapters: { itemId: string; label: string; text: string }[];
+}
+
+/**
+ * A passage of a book that matches a search
+ */
+export interface LibrarySearchMatch extends SearchMatch {
+    chapter: string;
+}
+
+export interface LibrarySearchHit {
+    book: Book;
+    score: number;
+    matches: LibrarySearchMatch[];
+}
+
+export interface IndexStatus {
+    indexed: number;
+    total: number;
+    current: Book | null; // The book being indexed
+}
+
+/**
+ * A full-text index of the books in the library, kept in the plugin's folder. Words map to the
+ * books containing them and how often, for ranking; the text of each book is stored separately and
+ * only read to show the passages of the best matches. Books are indexed one at a time in the
+ * background, and only when they are new or their file has changed.
+ */
+export class FullTextIndex {
+    private plugin: EbookReaderPlugin;
+    private books: Record<string, IndexedBook> = {};
+    private terms: Map<string, number[]> = new Map(); // Pairs of book number and word count
+    private nextDoc: number = 0;
+    private loaded: Promise<void> | null = null;
+    private queue: Book[] = [];
+    private current: Book | null = null;
+    private indexing: Promise<void> | null = null; // Set while the queue is being worked through
+    private stopped: boolean = false;
+    private eventHandlers: Array<() => void> = [];
+    private scheduleSave = debounce(() => this.save(), 2000, true);
+
+    constructor(plugin: EbookReaderPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Bring the index in step with the library: queue new and changed books, and drop removed ones
+     */
+    async sync(): Promise<void> {
+        if (this.stopped) return;
+        await this.load();
+
+        const books = this.plugin.library.getAllBooks().filter(book => book.source === 'local' && !book.drm);
+        const bookIds = new Set(books.map(book => book.id));
+
+        let removed = false;
+        for (const bookId of Object.keys(this.books)) {
+            if (!bookIds.has(bookId)) {
+                await this.removeBook(bookId);
+                removed = true;
+            }
+        }
+
+        books.forEach(book => {
+            if (this.isStale(book) && this.current?.id !== book.id && !this.queue.some(queued => queued.id === book.id)) {
+                this.queue.push(book);
+            }
+        });
+
+        if (removed) {
+            this.scheduleSave();
+            this.notifyListeners();
+        }
+        this.processQueue();
+    }
+
+    /**
+     * Rank the books containing every word of a query, with the passages where they occur.
+     * Books containing the query as a phrase come first.
+     */
+    async search(query: string): Promise<LibrarySearchHit[]> {
+        await this.load();
+
+        const words = Array.from(new Set(tokenize(query)));
+        if (words.length === 0) return [];
+
+        const docs = new Map<number, string>();
+        let totalLength = 0;
+        Object.keys(this.books).forEach(bookId => {
+            docs.set(this.books[bookId].doc, bookId);
+            totalLength += this.books[bookId].length;
+        });
+        const averageLength = totalLength / Math.max(docs.size, 1);
+
+        // Score with BM25, keeping the books that contain every word
+        const scores = new Map<number, { score: number; words: number }>();
+        const idfs = new Map<string, number>();
+        for (const word of words) {
+            const postings = this.terms.get(word);
+            if (!postings) return [];
+
+            const idf = Math.log(1 + (docs.size - postings.length / 2 + 0.5) / (postings.length / 2 + 0.5));
+            idfs.set(word, idf);
+            for (let i = 0; i < postings.length; i += 2) {
+                const bookId = docs.get(postings[i]);
+                if (!bookId) continue;
+
+                const count = postings[i + 1];
+                const lengthRatio = this.books[bookId].length / Math.max(averageLength, 1);
+                const entry = scores.get(postings[i]) || { score: 0, words: 0 };
+                entry.score += idf * count * (BM25_K1 + 1) / (count + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+                entry.words++;
+                scores.set(postings[i], entry);
+            }
+        }
+
+        const ranked = Array.from(scores.entries())
+            .filter(([, entry]) => entry.words === words.length)
+            .sort((a, b) => b[1].score - a[1].score)
+            .slice(0, MAX_BOOK_RESULTS);
+
+        // The rarest word stands in for the query in books that do not contain it as a phrase
+        const rarest = words.reduce((a, b) => (idfs.get(b) || 0) > (idfs.get(a) || 0) ? b : a);
+        const options = { caseSensitive: false, wholeWord: true };
+        const phrasePattern = createSearchPattern(query, options);
+        const wordPattern = createSearchPattern(rarest, options);
+
+        const hits: (LibrarySearchHit & { phrase: boolean })[] = [];
+        for (const [doc, entry] of ranked) {
+            const bookId = docs.get(doc) || '';
+            const book = this.plugin.library.getBook(bookId);
+            const bookText = book ? await this.readBookText(bookId) : null;
+            if (!book || !bookText) continue;
+
+            let matches = phrasePattern ? findPassages(bookText, phrasePattern) : [];
+            const phrase = matches.length > 0;
+            if (!phrase && wordPattern) {
+                matches = findPassages(bookText, wordPattern);
+            }
+            hits.push({ book, score: entry.score, matches, phrase });
+        }
+
+        return hits
+            .sort((a, b) => Number(b.phrase) - Number(a.phrase) || b.score - a.score)
+            .map(({ book, score, matches }) => ({ book, score, matches }));
+    }
+
+    getStatus(): IndexStatus {
+        const total = this.plugin.library.getAllBooks().filter(book => book.source === 'local' && !book.drm).length;
+        return {
+            indexed: Object.keys(this.books).length,
+            total,
+            current: this.current
+        };
+    }
+
+    /**
+     * Throw the index away and index every book again
+     */
+    async rebuild(): Promise<void> {
+        await this.load();
+
+        // Let the book being indexed finish first, so it is not added back to the cleared index. Book
+        // numbers carry on rather than start over, in case another book has started indexing since.
+        this.queue = [];
+        await this.indexing;
+        for (const bookId of Object.keys(this.books)) {
+            await this.removeText(bookId);
+        }
+        this.books = {};
+        this.terms = new Map();
+
+        await this.save();
+        this.notifyListeners();
+        await this.sync();
+    }
+
+    /**
+     * Stop indexing, when the plugin is unloaded
+     */
+    stop() {
+        this.stopped = true;
+        this.queue = [];
+    }
+
+    // Register an event listener for indexing progress
+    onIndexChanged(callback: () => void): void {
+        this.eventHandlers.push(callback);
+    }
+
+    private notifyListeners(): void {
+        for (const handler of this.eventHandlers) {
+            handler();
+        }
+    }
+
+    // A book needs indexing when it is new or its file changed since it was indexed
+    private isStale(book: Book): boolean {
+        const indexed = this.books[book.id];
+        const file = this.plugin.app.vault.getAbstractFileByPath(book.path);
+        if (!(file instanceof TFile)) return false;
+
+        return !indexed || indexed.path !== book.path || indexed.mtime !== file.stat.mtime || indexed.size !== file.stat.size;
+    }
+
+    // Index the queued books one at a time
+    private processQueue(): Promise<void> {
+        if (!this.indexing) {
+            this.indexing = this.indexQueued().then(() => {
+                this.indexing = null;
+            });
+        }
+        return this.indexing;
+    }
+
+    private async indexQueued() {
+        while (this.queue.length > 0 && !this.stopped) {
+            const book = this.queue.shift();
+            if (!book) break;
+
+            this.current = book;
+            this.notifyListeners();
+            try {
+                await this.indexBook(book);
+            } catch (e) {
+                console.error(`Error indexing ${book.path}:`, e);
+            }
+            this.current = null;
+
+            this.scheduleSave();
+            this.notifyListeners();
+        }
+    }
+
+    private async indexBook(book: Book) {
+        const file = this.plugin.app.vault.getAbstractFileByPath(book.path);
+        if (!(file instanceof TFile)) return;
+
+        const record: IndexedBook = {
+            doc: this.books[book.id]?.doc ?? this.nextDoc++,
+            path: book.path,
+            mtime: file.stat.mtime,
+            size: file.stat.size,
+            length: 0
+        };
+
+        const counts = new Map<string, number>();
+        const bookText: BookText = { chapters: [] };
+        try {
+            const epubContent = await parseEpub(await this.plugin.app.vault.readBinary(file));
+            const bookSearch = new BookSearch(epubContent);
+
+            for (const itemId of epubContent.spine.items) {
+                if (!epubContent.hasChapter(itemId)) continue;
+
+                const text = await bookSearch.getText(itemId);
+                bookText.chapters.push({ itemId, label: epubContent.getChapterLabel(itemId) || '', text });
+                tokenize(text).forEach(word => {
+                    counts.set(word, (counts.get(word) || 0) + 1);
+                    record.length++;
+                });
+
+                // Leave time for the rest of the app between chapters
+                await new Promise(resolve => window.setTimeout(resolve, 0));
+                if (this.stopped) return;
+            }
+        } catch (e) {
+            console.error(`Error reading ${book.path} for the full-text index:`, e);
+            record.failed = true;
+            counts.clear();
+            bookText.chapters = [];
+        }
+
+        // The book may have been removed from the library while it was read
+        if (!this.plugin.library.getBook(book.id)) return;
+
+        await this.writeBookText(book.id, bookText);
+        this.removePostings(record.doc);
+        counts.forEach((count, word) => {
+            const postings = this.terms.get(word);
+            if (postings) {
+                postings.push(record.doc, count);
+            } else {
+                this.terms.set(word, [record.doc, count]);
+            }
+        });
+        this.books[book.id] = record;
+    }
+
+    private async removeBook(bookId: string) {
+        const indexed = this.books[bookId];
+        if (!indexed) return;
+
+        this.removePostings(indexed.doc);
+        delete this.books[bookId];
+        await this.removeText(bookId);
+    }
+
+    private removePostings(doc: number) {
+        this.terms.forEach((postings, word) => {
+            const index = findDoc(postings, doc);
+            if (index === -1) return;
+
+            postings.splice(index, 2);
+            if (postings.length === 0) {
+                this.terms.delete(word);
+            }
+        });
+    }
+
+    private getFolder(): string {
+        const pluginDir = this.plugin.manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return `${pluginDir}/fulltext`;
+    }
+
+    private getTextPath(bookId: string): string {
+        return `${this.getFolder()}/${bookId}.json`;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.readIndex();
+        }
+        return this.loaded;
+    }
+
+    private async readIndex() {
+        const adapter = this.plugin.app.vault.adapter;
+        const path = `${this.getFolder()}/index.json`;
+        try {
+            if (!(await adapter.exists(path))) return;
+
+            const data: IndexData = JSON.parse(await adapter.read(path));
+            if (data.version !== INDEX_VERSION) {
+                console.log('Full-text index is in an older format and will be rebuilt');
+                return;
+            }
+            this.books = data.books || {};
+            this.nextDoc = data.nextDoc || 0;
+            this.terms = new Map(Object.keys(data.terms || {}).map(word => [word, data.terms[word]] as [string, number[]]));
+        } catch (e) {
+            console.error('Error loading the full-text index, it will be rebuilt:', e);
+            this.books = {};
+            this.terms = new Map();
+        }
+    }
+
+    private async save() {
+        const data: IndexData = {
+            version: INDEX_VERSION,
+            nextDoc: this.nextDoc,
+            books: this.books,
+            terms: {}
+        };
+        this.terms.forEach((postings, word) => data.terms[word] = postings);
+
+        try {
+            await this.ensureFolder();
+            await this.plugin.app.vault.adapter.write(`${this.getFolder()}/index.json`, JSON.stringify(data));
+        } catch (e) {
+            console.error('Error saving the full-text index:', e);
+        }
+    }
+
+    private async readBookText(bookId: string): Promise<BookText | null> {
+        try {
+            return JSON.parse(await this.plugin.app.vault.adapter.read(this.getTextPath(bookId)));
+        } catch (e) {
+            console.error(`Error reading the indexed text of ${bookId}:`, e);
+            return null;
+        }
+    }
+
+    private async writeBookText(bookId: string, bookText: BookText) {
+        await this.ensureFolder();
+        await this.plugin.app.vault.adapter.write(this.getTextPath(bookId), JSON.stringify(bookText));
+    }
+
+    private async removeText(bookId: string) {
+        const adapter = this.plugin.app.vault.adapter;
+        try {
+            if (await adapter.exists(this.getTextPath(bookId))) {
+                await adapter.remove(this.getTextPath(bookId));
+            }
+        } catch (e) {
+            console.error(`Error removing the indexed text of ${bookId}:`, e);
+        }
+    }
+
+    private async ensureFolder() {
+        const adapter = this.plugin.app.vault.adapter;
+        if (!(await adapter.exists(this.getFolder()))) {
+            await adapter.mkdir(this.getFolder());
+        }
+    }
+}
+
+/**
+ * Split text into the lowercase words the index is built from, with Chinese and Japanese text split
+ * into characters
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(WORD_PATTERN) || [];
+}
+
+// The first passages of a book matching a pattern, in reading order
+function findPassages(bookText: BookText, pattern: RegExp): LibrarySearchMatch[] {
+    const passages: LibrarySearchMatch[] = [];
+
+    for (const chapter of bookText.chapters) {
+        const matches = findMatches(chapter.text, pattern, { caseSensitive: false, wholeWord: true }, MAX_SNIPPETS - passages.length);
+        matches.forEach(({ start, end }) => passages.push({
+            itemId: chapter.itemId,
+            chapter: chapter.label,
+            start,
+            end,
+            ...getMatchContext(chapter.text, start, end)
+        }));
+        if (passages.length >= MAX_SNIPPETS) break;
+    }
+
+    return passages;
+}
+
+// Index of a book's pair in a postings list
+function findDoc(postings: number[], doc: number): number {
+    for (let i = 0; i < postings.length; i += 2) {
+        if (postings[i] === doc) return i;
+    }
+    return -1;
+}
@@ -0,0 +1,48 @@
+import { App, Component, Modal, MarkdownRenderer } from 'obsidian';
+import { InspectionReport, formatInspectionReport } from './epubInspector';
+
+/**
+ * Modal showing the result of an e-book health check
+ */
+export class InspectionReportModal extends Modal {
+    private report: InspectionReport;
+    private onSave: (markdown: string) => void;
+    private component: Component = new Component();
+
+    constructor(app: App, report: InspectionReport, onSave: (markdown: string) => void) {
+        super(app);
+        this.report = report;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('ebook-inspection-modal');
+
+        const markdown = formatInspectionReport(this.report);
+        const reportEl = contentEl.createDiv({ cls: 'ebook-inspection-report' });
+        this.component.load();
+        MarkdownRenderer.render(this.app, markdown, reportEl, '', this.component);
+
+        const buttonContainer = contentEl.createDiv({ cls: 'ebook-inspection-buttons' });
+
+        buttonContainer.createEl('button', {
+            text: 'Save as Note',
+            cls: 'mod-cta'
+        }).addEventListener('click', () => {
+            this.onSave(markdown);
+            this.close();
+        });
+
+        buttonContainer.createEl('button', {
+            text: 'Close'
+        }).addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        this.component.unload();
+        this.contentEl.empty();
+    }
+}
@@ -1,6 +1,7 @@
 import { TFile, TFolder, Notice } from 'obsidian';
 import EbookReaderPlugin from './main';
-import { parseEpub } from './epubParser';
+import { parseEpubMetadata, EpubMetadata } from './epubParser';
+import { DrmScheme, describeEpubError } from './epubErrors';
 
 
 export type LibrarySource = 'local' | 'dropbox' | 'googleDrive' | 'oneDrive' | 'calibre';
@@ -26,6 +27,9 @@ export interface Book {
     isbn?: string;
     fileSize?: number;
     rating?: number;
+    drm?: DrmScheme; // Set when the book is DRM-protected and cannot be opened
+    contentLengths?: Record<string, number>; // Characters of text in each spine item, for progress through the book
+    wordCounts?: Record<string, number>; // Words in each spine item, for reading time estimates
 }
 
 export interface Collection {
@@ -176,7 +180,7 @@ export class BookLibrary {
         }
     }
 
-    private getEpubFilesInFolder(folder: TFolder): TFile[] {
+    getEpubFilesInFolder(folder: TFolder): TFile[] {
         console.log(`Searching for EPUBs in folder: ${folder.path}`);
         const epubFiles: TFile[] = [];
     
@@ -213,27 +217,39 @@ export class BookLibrary {
             
             // Parse the EPUB to get metadata
             console.log(`Parsing EPUB metadata for: ${file.path}`);
-            const epubContent = await parseEpub(data);
+            const epubContent = await parseEpubMetadata(data);
             console.log(`EPUB metadata parsed successfully for: ${file.path}`);
             
             // Create a new book object
+            const metadata = epubContent.metadata;
             const book: Book = {
                 id: this.generateBookId(),
-                title: epubContent.metadata.title || file.basename,
-                author: epubContent.metadata.creator || 'Unknown',
+                title: metadata.title || file.basename,
+                author: this.getAuthorName(metadata),
                 path: file.path,
                 coverPath: '',
                 addedDate: Date.now(),
                 lastOpenedDate: Date.now(),
                 progress: 0,
                 source: 'local',
-                publisher: epubContent.metadata.publisher,
-                language: epubContent.metadata.language,
-                publishDate: epubContent.metadata.published
+                publisher: metadata.publisher,
+                language: metadata.language,
+                publishDate: metadata.published,
+                description: metadata.description,
+                series: metadata.series,
+                seriesIndex: metadata.seriesIndex,
+                isbn: metadata.isbn,
+                tags: metadata.subjects ? [...metadata.subjects] : undefined,
+                fileSize: data.byteLength,
+                drm: epubContent.drm
             };
             
             console.log(`Created book object: ${book.title} by ${book.author}`);
             
+            if (book.drm) {
+                console.warn(`Book is DRM-protected (${book.drm}): ${file.path}`);
+            }
+            
             // Extract and save cover if available
             if (epubContent.coverPath) {
                 console.log(`Extracting cover from: ${epubContent.coverPath}`);
@@ -247,11 +263,23 @@ export class BookLibrary {
             return book;
         } catch (error) {
             console.error(`Error adding book from file ${file.path}:`, error);
-            new Notice(`Error adding book ${file.name}: ${error.message}`);
+            new Notice(`Error adding book ${file.name}: ${describeEpubError(error)}`);
             return null;
         }
     }
 
+    // Build the display author from the creators marked as authors (or without a role)
+    private getAuthorName(metadata: EpubMetadata): string {
+        const authors = (metadata.creators || [])
+            .filter(creator => !creator.role || creator.role === 'aut')
+            .map(creator => creator.name);
+        
+        if (authors.length > 0) {
+            return authors.join(', ');
+        }
+        return metadata.creator || 'Unknown';
+    }
+
     generateBookId(): string {
         return `book_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     }
@@ -0,0 +1,136 @@
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import EbookReaderPlugin from './main';
+import { LibrarySearchHit } from './fullTextIndex';
+
+export const LIBRARY_SEARCH_VIEW_TYPE = 'ebook-library-search-view';
+
+export class LibrarySearchView extends ItemView {
+    private plugin: EbookReaderPlugin;
+    private containerDiv: HTMLElement;
+    private inputEl: HTMLInputElement;
+    private statusEl: HTMLElement;
+    private resultsEl: HTMLElement;
+    private searchId: number = 0;
+
+    constructor(leaf: WorkspaceLeaf, plugin: EbookReaderPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return LIBRARY_SEARCH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'E-Book Library Search';
+    }
+
+    getIcon(): string {
+        return 'search';
+    }
+
+    async onOpen() {
+        this.containerDiv = this.containerEl.createDiv({ cls: 'ebook-library-search-container' });
+
+        this.inputEl = this.containerDiv.createEl('input', {
+            type: 'search',
+            cls: 'ebook-library-search-input',
+            attr: { placeholder: 'Search the text of every book' }
+        });
+
+        // Search once typing pauses, or straight away on Enter
+        const scheduleSearch = debounce(() => this.search(), 400, true);
+        this.inputEl.addEventListener('input', () => scheduleSearch());
+        this.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter') {
+                evt.preventDefault();
+                this.search();
+            }
+        });
+
+        this.statusEl = this.containerDiv.createDiv({ cls: 'ebook-library-search-status' });
+        this.resultsEl = this.containerDiv.createDiv({ cls: 'ebook-library-search-results' });
+
+        this.updateStatus();
+        this.inputEl.focus();
+
+        // Catch up on books added or changed since the index was last saved
+        this.plugin.fullTextIndex.sync();
+    }
+
+    async onClose() {
+        this.searchId++;
+        this.containerDiv?.empty();
+    }
+
+    focusInput() {
+        this.inputEl?.focus();
+        this.inputEl?.select();
+    }
+
+    // Show how far the index has got
+    updateStatus() {
+        if (!this.statusEl) return;
+
+        const status = this.plugin.fullTextIndex.getStatus();
+        if (status.current) {
+            this.statusEl.setText(`Indexing "${status.current.title}"... ${status.indexed} of ${status.total} books indexed`);
+        } else {
+            this.statusEl.setText(`${status.indexed} of ${status.total} books indexed`);
+        }
+    }
+
+    private async search() {
+        const searchId = ++this.searchId;
+        const query = this.inputEl.value.trim();
+        this.resultsEl.empty();
+        if (!query) return;
+
+        this.resultsEl.createDiv({ cls: 'ebook-library-search-empty', text: 'Searching...' });
+
+        let hits: LibrarySearchHit[];
+        try {
+            hits = await this.plugin.fullTextIndex.search(query);
+        } catch (e) {
+            console.error('Error searching the library:', e);
+            hits = [];
+        }
+
+        // A newer search has started in the meantime
+        if (searchId !== this.searchId) return;
+
+        this.resultsEl.empty();
+        if (hits.length === 0) {
+            this.resultsEl.createDiv({ cls: 'ebook-library-search-empty', text: 'No books contain all of these words.' });
+            return;
+        }
+
+        hits.forEach(hit => this.renderHit(hit));
+    }
+
+    private renderHit(hit: LibrarySearchHit) {
+        const bookEl = this.resultsEl.createDiv({ cls: 'ebook-library-search-book' });
+
+        const titleEl = bookEl.createDiv({ cls: 'ebook-library-search-title', text: hit.book.title });
+        titleEl.addEventListener('click', () => {
+            this.plugin.openBookInReader(hit.book);
+        });
+        bookEl.createDiv({ cls: 'ebook-library-search-author', text: hit.book.author });
+
+        hit.matches.forEach(match => {
+            const matchEl = bookEl.createDiv({ cls: 'ebook-library-search-match' });
+            if (match.chapter) {
+                matchEl.createDiv({ cls: 'ebook-library-search-chapter', text: match.chapter });
+            }
+
+            const snippetEl = matchEl.createDiv({ cls: 'ebook-library-search-snippet' });
+            snippetEl.appendText(match.before);
+            snippetEl.createEl('mark', { text: match.text });
+            snippetEl.appendText(match.after);
+
+            matchEl.addEventListener('click', () => {
+                this.plugin.openBookAtText(hit.book, match.itemId, match.start, match.end);
+            });
+        });
+    }
+}
@@ -1,9 +1,11 @@
 // Add this to a new file named libraryView.ts
 
 import { ItemView, WorkspaceLeaf, Menu, TFile, TAbstractFile, TFolder, Notice } from 'obsidian';
-import { parseEpub } from './epubParser';
+import { parseEpubMetadata } from './epubParser';
 import EbookReaderPlugin from './main';
 import { Book } from './libraryManager';
+import { getDrmSchemeName, describeEpubError } from './epubErrors';
+import { formatReadingTime } from './readingSpeed';
 
 export const LIBRARY_VIEW_TYPE = 'ebook-library-view';
 
@@ -127,6 +129,26 @@ export class LibraryView extends ItemView {
             this.plugin.importEbook();
         });
         
+        // Search inside the books
+        const searchTextBtn = titleContainer.createEl('button', {
+            text: 'Search Text',
+            cls: 'ebook-library-btn',
+            attr: { 'aria-label': 'Search the text of every book' }
+        });
+        searchTextBtn.addEventListener('click', () => {
+            this.plugin.openLibrarySearchView();
+        });
+        
+        // Reading time, streaks and finished books
+        const statisticsBtn = titleContainer.createEl('button', {
+            text: 'Statistics',
+            cls: 'ebook-library-btn',
+            attr: { 'aria-label': 'Show reading statistics' }
+        });
+        statisticsBtn.addEventListener('click', () => {
+            this.plugin.openStatisticsView();
+        });
+        
         // Filter and sort container
         this.filterContainer = headerEl.createDiv({ cls: 'ebook-library-filters' });
         // Sort dropdown
@@ -302,6 +324,16 @@ export class LibraryView extends ItemView {
             placeholderEl.createSpan({ text: titleInitial });
         }
         
+        // DRM badge
+        if (book.drm) {
+            coverContainer.createDiv({
+                text: 'DRM',
+                cls: 'ebook-book-drm-badge',
+                attr: { title: `Protected by ${getDrmSchemeName(book.drm)}; this book cannot be opened` }
+            });
+            card.addClass('ebook-book-card-drm');
+        }
+        
         // Progress bar
         if (book.progress > 0) {
             const progressContainer = coverContainer.createDiv({ cls: 'ebook-book-progress' });
@@ -314,6 +346,14 @@ export class LibraryView extends ItemView {
         infoEl.createDiv({ text: book.title, cls: 'ebook-book-title' });
         infoEl.createDiv({ text: book.author, cls: 'ebook-book-author' });
         
+        // Reading time left in books being read
+        if (book.wordCounts && book.progress > 0 && book.progress < 100) {
+            const wordCounts = book.wordCounts;
+            const totalWords = Object.keys(wordCounts).reduce((sum, itemId) => sum + wordCounts[itemId], 0);
+            const minutes = this.plugin.readingSpeed.estimateMinutes(totalWords * (100 - book.progress) / 100);
+            infoEl.createDiv({ text: `${formatReadingTime(minutes)} left`, cls: 'ebook-book-time-left' });
+        }
+        
         // Tags
         if (book.tags && book.tags.length > 0) {
             const tagsContainer = infoEl.createDiv({ cls: 'ebook-book-tags' });
@@ -348,7 +388,7 @@ export class LibraryView extends ItemView {
                             const file = this.plugin.app.vault.getAbstractFileByPath(book.path);
                             if (file instanceof TFile) {
                                 const data = await this.plugin.app.vault.readBinary(file);
-                                const epubContent = await parseEpub(data);
+                                const epubContent = await parseEpubMetadata(data);
                                 
                                 if (epubContent.coverPath) {
                                     book.coverPath = await this.plugin.extractAndSaveCover(epubContent, book.id);
@@ -361,11 +401,19 @@ export class LibraryView extends ItemView {
                             }
                         } catch (error) {
                             console.error("Error extracting cover:", error);
-                            new Notice(`Error extracting cover: ${error.message}`);
+                            new Notice(`Error extracting cover: ${describeEpubError(error)}`);
                         }
                     });
             });
             
+            menu.addItem(item => {
+                item
+                    .setTitle('Inspect E-Book')
+                    .onClick(() => {
+                        this.plugin.inspectBook(book);
+                    });
+            });
+            
             menu.addItem(item => {
                 item
                     .setTitle('Remove from Library')
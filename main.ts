@@ -1,11 +1,24 @@
-import { App, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, TFolder, Notice } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, TFolder, Notice, ObsidianProtocolData } from 'obsidian';
 import * as JSZip from 'jszip';
-import { parseEpub, EpubContent, EpubMetadata } from './epubParser';
-import { BookLibrary, Book, LibrarySource } from './libraryManager';
+import { EpubInfo } from './epubParser';
+import { inspectEpub, formatInspectionReport, InspectionReport } from './epubInspector';
+import { InspectionReportModal } from './inspectionModal';
+import { BookLibrary, Book } from './libraryManager';
 import { ReaderView, READER_VIEW_TYPE, ReadingState } from './readerView';
 import { LibraryView, LIBRARY_VIEW_TYPE } from './libraryView';
+import { AnnotationsView, ANNOTATIONS_VIEW_TYPE } from './annotationsView';
+import { LibrarySearchView, LIBRARY_SEARCH_VIEW_TYPE } from './librarySearchView';
+import { StatisticsView, STATISTICS_VIEW_TYPE } from './statisticsView';
 import { LocalStorageManager } from './storageManager';
 import { CloudSyncManager } from './cloudSync';
+import { FullTextIndex } from './fullTextIndex';
+import { ReadingSpeed } from './readingSpeed';
+import { DEFAULT_EXPORT_TEMPLATE, buildExportData, getBookFrontmatter, renderTemplate, updateManagedSection } from './annotationExport';
+import { parseEpub, EpubContent } from './epubParser';
+import { BOOK_URI_ACTION } from './bookLinks';
+
+// Scroll through each chapter, scroll through the whole book, or turn pages
+export type ReadingFlow = 'scrolled-doc' | 'scrolled-continuous' | 'paginated';
 
 interface EbookReaderSettings {
 	libraryPath: string;
@@ -29,7 +42,9 @@ interface EbookReaderSettings {
 		theme: 'light' | 'dark' | 'sepia';
 		fontFamily: string;
 		margins: number;
+		flow: ReadingFlow;
 		pageTurnAnimation: boolean;
+		publisherStyles: boolean;
 	};
 	sync: {
 		enabled: boolean;
@@ -38,6 +53,10 @@ interface EbookReaderSettings {
 		syncReadingProgress: boolean;
 		syncNotes: boolean;
 	};
+	export: {
+		folder: string; // Empty for the library folder
+		template: string; // Empty for the default template
+	};
 }
 
 const DEFAULT_SETTINGS: EbookReaderSettings = {
@@ -62,7 +81,9 @@ const DEFAULT_SETTINGS: EbookReaderSettings = {
 		theme: 'light',
 		fontFamily: 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
 		margins: 2,
+		flow: 'scrolled-doc',
 		pageTurnAnimation: true,
+		publisherStyles: true,
 	},
 	sync: {
 		enabled: true,
@@ -70,6 +91,10 @@ const DEFAULT_SETTINGS: EbookReaderSettings = {
 		syncHighlights: true,
 		syncReadingProgress: true,
 		syncNotes: true,
+	},
+	export: {
+		folder: '',
+		template: '',
 	}
 };
 
@@ -78,6 +103,8 @@ export default class EbookReaderPlugin extends Plugin {
 	library: BookLibrary;
 	storageManager: LocalStorageManager;
 	cloudSync: CloudSyncManager;
+	fullTextIndex: FullTextIndex;
+	readingSpeed: ReadingSpeed;
 
 	async onload() {
 		await this.loadSettings();
@@ -85,6 +112,7 @@ export default class EbookReaderPlugin extends Plugin {
 		this.registerViews();
 		this.registerCommands();
 		this.registerFileHandlers();
+		this.registerUriHandler();
 		this.addSettingTab(new EbookReaderSettingTab(this.app, this));
 		
 		// Check library folder quietly - no error notification on startup
@@ -120,8 +148,22 @@ export default class EbookReaderPlugin extends Plugin {
 		}
 		
 		// Initialize the library
+		await this.readingSpeed.load();
 		await this.library.initialize();
 		
+		// Keep the full-text index in step with the library, indexing new and changed books in the background
+		this.library.onLibraryChanged(() => {
+			this.fullTextIndex.sync();
+		});
+		this.fullTextIndex.onIndexChanged(() => {
+			this.refreshLibrarySearchViews();
+		});
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file instanceof TFile && file.extension === 'epub' && this.library.getBookByPath(file.path)) {
+				this.fullTextIndex.sync();
+			}
+		}));
+		
 		console.log('Ebook Reader plugin loaded');
 	}
 	async initializeManagers() {
@@ -133,6 +175,12 @@ export default class EbookReaderPlugin extends Plugin {
 		
 		// Initialize book library
 		this.library = new BookLibrary(this);
+		
+		// Initialize the full-text index of the library's books
+		this.fullTextIndex = new FullTextIndex(this);
+		
+		// Initialize the measured reading speed, for reading time estimates
+		this.readingSpeed = new ReadingSpeed(this);
 	}
 
 	registerViews() {
@@ -148,6 +196,24 @@ export default class EbookReaderPlugin extends Plugin {
 			(leaf) => new LibraryView(leaf, this)
 		);
 		
+		// Register the annotations sidebar
+		this.registerView(
+			ANNOTATIONS_VIEW_TYPE,
+			(leaf) => new AnnotationsView(leaf, this)
+		);
+		
+		// Register the full-text search of the library
+		this.registerView(
+			LIBRARY_SEARCH_VIEW_TYPE,
+			(leaf) => new LibrarySearchView(leaf, this)
+		);
+		
+		// Register the reading statistics
+		this.registerView(
+			STATISTICS_VIEW_TYPE,
+			(leaf) => new StatisticsView(leaf, this)
+		);
+		
 		// Add ribbon icon to open library
 		this.addRibbonIcon('book', 'Open E-Book Library', () => {
 			this.openLibraryView();
@@ -182,6 +248,135 @@ export default class EbookReaderPlugin extends Plugin {
 			}
 		});
 		
+		// Command to run health checks on the open or last read book
+		this.addCommand({
+			id: 'inspect-ebook',
+			name: 'Inspect E-Book',
+			checkCallback: (checking: boolean) => {
+				const book = this.getCurrentBook();
+				if (!book) return false;
+				if (!checking) {
+					this.inspectBook(book);
+				}
+				return true;
+			}
+		});
+		
+		// Command to run health checks on every book in the library
+		this.addCommand({
+			id: 'inspect-ebook-library',
+			name: 'Inspect All E-Books in Library',
+			callback: () => {
+				this.inspectLibrary();
+			}
+		});
+		
+		// Commands to move through the link history of the active reader
+		this.addCommand({
+			id: 'reader-go-back',
+			name: 'Go Back in E-Book',
+			checkCallback: (checking: boolean) => {
+				const readerView = this.app.workspace.getActiveViewOfType(ReaderView);
+				if (!readerView || !readerView.canGoBack()) return false;
+				if (!checking) {
+					readerView.goBack();
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'reader-go-forward',
+			name: 'Go Forward in E-Book',
+			checkCallback: (checking: boolean) => {
+				const readerView = this.app.workspace.getActiveViewOfType(ReaderView);
+				if (!readerView || !readerView.canGoForward()) return false;
+				if (!checking) {
+					readerView.goForward();
+				}
+				return true;
+			}
+		});
+		
+		// Command to write the highlights and notes of the open or last read book to a note
+		this.addCommand({
+			id: 'export-ebook-annotations',
+			name: 'Export E-Book Annotations to Note',
+			checkCallback: (checking: boolean) => {
+				const book = this.getCurrentBook();
+				if (!book) return false;
+				if (!checking) {
+					this.exportAnnotations(book);
+				}
+				return true;
+			}
+		});
+		
+		// Command to list the annotations of the open book in the sidebar
+		this.addCommand({
+			id: 'open-ebook-annotations',
+			name: 'Show E-Book Annotations',
+			callback: () => {
+				this.openAnnotationsView();
+			}
+		});
+		
+		// Command to search the text of the open book
+		this.addCommand({
+			id: 'search-in-ebook',
+			name: 'Search in Current E-Book',
+			checkCallback: (checking: boolean) => {
+				const readerView = this.app.workspace.getActiveViewOfType(ReaderView);
+				if (!readerView || !readerView.getBook()) return false;
+				if (!checking) {
+					readerView.openSearch();
+				}
+				return true;
+			}
+		});
+		
+		// Command to search the text of every book in the library
+		this.addCommand({
+			id: 'search-ebook-library',
+			name: 'Search Text of All E-Books',
+			callback: () => {
+				this.openLibrarySearchView();
+			}
+		});
+		
+		// Command to show reading time, streaks and finished books
+		this.addCommand({
+			id: 'open-ebook-statistics',
+			name: 'Show E-Book Reading Statistics',
+			callback: () => {
+				this.openStatisticsView();
+			}
+		});
+		
+		// Command to index every book again, for when the index is out of step with the books
+		this.addCommand({
+			id: 'rebuild-ebook-index',
+			name: 'Rebuild E-Book Full-Text Index',
+			callback: async () => {
+				new Notice('Rebuilding the full-text index in the background...');
+				await this.fullTextIndex.rebuild();
+			}
+		});
+		
+		// Command to copy a link to the place being read, for citing it in a note
+		this.addCommand({
+			id: 'copy-ebook-location-link',
+			name: 'Copy Link to Current E-Book Location',
+			checkCallback: (checking: boolean) => {
+				const readerView = this.app.workspace.getActiveViewOfType(ReaderView);
+				if (!readerView || !readerView.getBook()) return false;
+				if (!checking) {
+					readerView.copyLocationLink();
+				}
+				return true;
+			}
+		});
+		
 		// Command to open reader view for the current book
 		this.addCommand({
 			id: 'continue-reading',
@@ -212,34 +407,51 @@ export default class EbookReaderPlugin extends Plugin {
 		});
 	}
 
+	registerUriHandler() {
+		// obsidian://ebook?book=<id or path>&loc=<CFI or chapter/percentage>&highlight=<id>
+		this.registerObsidianProtocolHandler(BOOK_URI_ACTION, (params: ObsidianProtocolData) => {
+			this.openBookLink(params);
+		});
+	}
+
+	// Open the book a link points to at its location
+	async openBookLink(params: ObsidianProtocolData) {
+		const bookParam = params.book || '';
+		const book = this.library.getBook(bookParam) || this.library.getBookByPath(bookParam);
+		if (!book) {
+			new Notice(`The linked book could not be found in the library: ${bookParam}`);
+			return;
+		}
+		
+		const readerView = await this.showBookInReader(book);
+		await readerView?.openLink(params.loc, params.highlight);
+	}
+
+	// Open a book at a passage found by a search, and mark it
+	async openBookAtText(book: Book, itemId: string, start: number, end: number) {
+		const readerView = await this.showBookInReader(book);
+		await readerView?.revealText(itemId, start, end);
+	}
+
+	// Show a book in the reader. A book that is already open is not reloaded.
+	async showBookInReader(book: Book): Promise<ReaderView | null> {
+		const leaf = await this.getReaderLeaf();
+		if (leaf.view instanceof ReaderView && leaf.view.getBook()?.id === book.id) {
+			this.app.workspace.revealLeaf(leaf);
+		} else {
+			await this.openBookInReader(book);
+		}
+		return leaf.view instanceof ReaderView ? leaf.view : null;
+	}
+
 	async openBookFromFile(file: TFile) {
 		// Check if the book is already in the library
 		let book = this.library.getBookByPath(file.path);
 		
 		if (!book) {
 			// If not in library, add it
-			const fileContent = await this.app.vault.readBinary(file);
-			const epubContent = await parseEpub(fileContent);
-			
-			book = {
-				id: this.generateBookId(),
-				title: epubContent.metadata.title || file.basename,
-				author: epubContent.metadata.creator || 'Unknown',
-				path: file.path,
-				coverPath: '',
-				addedDate: Date.now(),
-				lastOpenedDate: Date.now(),
-				progress: 0,
-				source: 'local' as LibrarySource
-			};
-			
-			// Extract and save cover if available
-			if (epubContent.coverPath) {
-				book.coverPath = await this.extractAndSaveCover(epubContent, book.id);
-			}
-			
-			// Add to library
-			await this.library.addBook(book);
+			book = await this.library.addBookFromFile(file) || undefined;
+			if (!book) return;
 		}
 		
 		// Open the book in reader view
@@ -255,7 +467,7 @@ export default class EbookReaderPlugin extends Plugin {
 		this.storageManager.setLastReadBook(book.id);
 		
 		// Get or create the reader leaf
-		const leaf = this.getReaderLeaf();
+		const leaf = await this.getReaderLeaf();
 		
 		// Set the reader to display this book
 		if (leaf && leaf.view instanceof ReaderView) {
@@ -264,7 +476,8 @@ export default class EbookReaderPlugin extends Plugin {
 		}
 	}
 
-	getReaderLeaf(): WorkspaceLeaf {
+	// The leaf of the reader, with its view created, so a book can be loaded into it straight away
+	async getReaderLeaf(): Promise<WorkspaceLeaf> {
 		// Look for an existing reader view
 		const leaves = this.app.workspace.getLeavesOfType(READER_VIEW_TYPE);
 		
@@ -275,7 +488,7 @@ export default class EbookReaderPlugin extends Plugin {
 		// If no existing view, create a new one in the main window area (not right sidebar)
 		const leaf = this.app.workspace.getLeaf('tab'); // Use 'tab' to open in the main window
 		if (leaf) {
-			leaf.setViewState({
+			await leaf.setViewState({
 				type: READER_VIEW_TYPE,
 				active: true,
 			});
@@ -305,6 +518,87 @@ export default class EbookReaderPlugin extends Plugin {
 		this.app.workspace.revealLeaf(leaf);
 	}
 
+	async openAnnotationsView() {
+		const leaves = this.app.workspace.getLeavesOfType(ANNOTATIONS_VIEW_TYPE);
+		
+		if (leaves.length > 0) {
+			this.app.workspace.revealLeaf(leaves[0]);
+			return;
+		}
+		
+		// The annotations sit beside the book in the right sidebar
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (!leaf) return;
+		await leaf.setViewState({
+			type: ANNOTATIONS_VIEW_TYPE,
+			active: true,
+		});
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	async openLibrarySearchView() {
+		const leaves = this.app.workspace.getLeavesOfType(LIBRARY_SEARCH_VIEW_TYPE);
+		
+		if (leaves.length > 0) {
+			this.app.workspace.revealLeaf(leaves[0]);
+			if (leaves[0].view instanceof LibrarySearchView) {
+				leaves[0].view.focusInput();
+			}
+			return;
+		}
+		
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (!leaf) return;
+		await leaf.setViewState({
+			type: LIBRARY_SEARCH_VIEW_TYPE,
+			active: true,
+		});
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	async openStatisticsView() {
+		const leaves = this.app.workspace.getLeavesOfType(STATISTICS_VIEW_TYPE);
+		
+		if (leaves.length > 0) {
+			this.app.workspace.revealLeaf(leaves[0]);
+			return;
+		}
+		
+		const leaf = this.app.workspace.getLeaf('tab');
+		await leaf.setViewState({
+			type: STATISTICS_VIEW_TYPE,
+			active: true,
+		});
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// Re-render open reading statistics after a reading session was saved
+	refreshStatisticsViews() {
+		this.app.workspace.getLeavesOfType(STATISTICS_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof StatisticsView) {
+				leaf.view.refresh();
+			}
+		});
+	}
+
+	// Show the progress of the full-text index in open library searches
+	refreshLibrarySearchViews() {
+		this.app.workspace.getLeavesOfType(LIBRARY_SEARCH_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof LibrarySearchView) {
+				leaf.view.updateStatus();
+			}
+		});
+	}
+
+	// Re-render open annotation sidebars after the annotations or the open book changed
+	refreshAnnotationsViews() {
+		this.app.workspace.getLeavesOfType(ANNOTATIONS_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof AnnotationsView) {
+				leaf.view.refresh();
+			}
+		});
+	}
+
 	async importEbook() {
 		// Open file picker to select epub files
 		const fileInput = document.createElement('input');
@@ -381,7 +675,7 @@ export default class EbookReaderPlugin extends Plugin {
 		return 'book_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
 	}
 
-	async extractAndSaveCover(epubContent: EpubContent, bookId: string): Promise<string> {
+	async extractAndSaveCover(epubContent: EpubInfo, bookId: string): Promise<string> {
 		if (!epubContent.coverPath) return '';
 		
 		try {
@@ -401,30 +695,7 @@ export default class EbookReaderPlugin extends Plugin {
 				}
 			}
 			
-			// Extract cover data from the EPUB if coverData is null
-			let coverData = epubContent.coverData;
-			if (!coverData && epubContent.coverPath) {
-				// Try to extract the cover from the resources
-				try {
-					// Look for the cover in resources
-					if (epubContent.resources && epubContent.coverPath in epubContent.resources) {
-						coverData = epubContent.resources[epubContent.coverPath];
-						console.log("Found cover in resources:", epubContent.coverPath);
-					} else {
-						// Look for cover using filename
-						const coverFilename = epubContent.coverPath.split('/').pop() || '';
-						for (const [path, data] of Object.entries(epubContent.resources || {})) {
-							if (path.endsWith(coverFilename)) {
-								coverData = data;
-								console.log("Found cover by filename:", path);
-								break;
-							}
-						}
-					}
-				} catch (e) {
-					console.error("Error extracting cover from resources:", e);
-				}
-			}
+			const coverData = epubContent.coverData;
 			
 			if (coverData) {
 				const coverPath = `${coversPath}/${bookId}.jpg`;
@@ -531,6 +802,149 @@ export default class EbookReaderPlugin extends Plugin {
 		}
 	}
 
+	// Get the book in the active reader view, falling back to the last read book
+	getCurrentBook(): Book | null {
+		const readerView = this.app.workspace.getActiveViewOfType(ReaderView);
+		const openBook = readerView?.getBook();
+		if (openBook) return openBook;
+		
+		const lastBookId = this.storageManager.getLastReadBook();
+		return lastBookId ? this.library.getBook(lastBookId) || null : null;
+	}
+
+	async inspectBook(book: Book) {
+		const file = this.app.vault.getAbstractFileByPath(book.path);
+		if (!(file instanceof TFile)) {
+			new Notice(`Cannot find file: ${book.path}`);
+			return;
+		}
+		
+		new Notice(`Inspecting "${book.title}"...`);
+		let report: InspectionReport;
+		try {
+			const data = await this.app.vault.readBinary(file);
+			report = await inspectEpub(data, book.title, book.path);
+		} catch (e) {
+			console.error(`Error inspecting ${book.path}:`, e);
+			new Notice(`Error inspecting "${book.title}": ${e.message}`);
+			return;
+		}
+		
+		new InspectionReportModal(this.app, report, async (markdown) => {
+			await this.writeReportNote(`Inspection - ${book.title}`, markdown);
+		}).open();
+	}
+
+	async inspectLibrary() {
+		const folder = this.app.vault.getAbstractFileByPath(this.settings.libraryPath);
+		if (!(folder instanceof TFolder)) {
+			new Notice(`Library folder not found: ${this.settings.libraryPath}`);
+			return;
+		}
+		
+		// Books that could not be added are not in the library, so every EPUB in the folder is inspected
+		const files = this.library.getEpubFilesInFolder(folder);
+		if (files.length === 0) {
+			new Notice('There are no books in the library to inspect.');
+			return;
+		}
+		
+		new Notice(`Inspecting ${files.length} books...`);
+		const sections: string[] = [];
+		let booksWithErrors = 0;
+		
+		// Inspect one book at a time to keep memory use bounded
+		for (const file of files) {
+			const title = this.library.getBookByPath(file.path)?.title || file.basename;
+			try {
+				const data = await this.app.vault.readBinary(file);
+				const report = await inspectEpub(data, title, file.path);
+				if (report.issues.some(issue => issue.severity === 'error')) {
+					booksWithErrors++;
+				}
+				sections.push(formatInspectionReport(report, 2));
+			} catch (e) {
+				console.error(`Error inspecting ${file.path}:`, e);
+			}
+		}
+		
+		const summary = `# E-Book Inspection Report\n\n${sections.length} books inspected, ${booksWithErrors} with errors.\n\n`;
+		await this.writeReportNote('E-Book Inspection Report', summary + sections.join('\n'));
+	}
+
+	// Write or update the literature note of a book with its annotations, keeping what the user wrote around them
+	async exportAnnotations(book: Book) {
+		const state = await this.storageManager.getReadingState(book.id);
+		if (!state || state.highlights.length + state.notes.length + state.bookmarks.length === 0) {
+			new Notice(`"${book.title}" has no annotations to export.`);
+			return;
+		}
+		
+		// The book itself supplies the chapter titles from its table of contents
+		let epubContent: EpubContent | null = null;
+		const bookFile = this.app.vault.getAbstractFileByPath(book.path);
+		if (bookFile instanceof TFile) {
+			try {
+				epubContent = await parseEpub(await this.app.vault.readBinary(bookFile));
+			} catch (e) {
+				console.error(`Error reading ${book.path} for chapter titles:`, e);
+			}
+		}
+		
+		const section = renderTemplate(this.settings.export.template || DEFAULT_EXPORT_TEMPLATE, buildExportData(book, state, epubContent));
+		const folder = this.settings.export.folder || this.settings.libraryPath;
+		const fileName = book.title.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || book.id;
+		const path = `${folder}/${fileName}.md`;
+		
+		try {
+			if (!this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			let note: TFile;
+			if (existing instanceof TFile) {
+				await this.app.vault.process(existing, content => updateManagedSection(content, section));
+				note = existing;
+			} else {
+				note = await this.app.vault.create(path, updateManagedSection('', section));
+			}
+			
+			// Book details go in the frontmatter, next to any properties the user added
+			await this.app.fileManager.processFrontMatter(note, frontmatter => {
+				Object.assign(frontmatter, getBookFrontmatter(book));
+			});
+			
+			new Notice(`Exported annotations of "${book.title}"`);
+			await this.app.workspace.getLeaf('tab').openFile(note);
+		} catch (e) {
+			console.error('Error exporting annotations:', e);
+			new Notice(`Error exporting annotations: ${e.message}`);
+		}
+	}
+
+	// Write a report note into the library folder and open it
+	async writeReportNote(name: string, markdown: string) {
+		const fileName = name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+		const path = `${this.settings.libraryPath}/${fileName}.md`;
+		
+		try {
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			let note: TFile;
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, markdown);
+				note = existing;
+			} else {
+				note = await this.app.vault.create(path, markdown);
+			}
+			
+			await this.app.workspace.getLeaf('tab').openFile(note);
+		} catch (e) {
+			console.error('Error writing report note:', e);
+			new Notice(`Error saving report: ${e.message}`);
+		}
+	}
+
 	// Method for error notification
 	notifyError(message: string): Notice {
 		// Use Obsidian's notice API
@@ -538,14 +952,27 @@ export default class EbookReaderPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		
+		// The data also holds the library and reading data, which the storage manager looks after
+		const settings: Partial<EbookReaderSettings> = {};
+		(Object.keys(DEFAULT_SETTINGS) as (keyof EbookReaderSettings)[]).forEach(key => {
+			if (data?.[key] !== undefined) settings[key] = data[key];
+		});
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		
+		// Merge nested groups so options added in later versions get their defaults
+		this.settings.reading = Object.assign({}, DEFAULT_SETTINGS.reading, data?.reading);
+		this.settings.sync = Object.assign({}, DEFAULT_SETTINGS.sync, data?.sync);
+		this.settings.export = Object.assign({}, DEFAULT_SETTINGS.export, data?.export);
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.storageManager.saveSettings(this.settings);
 	}
 
 	onunload() {
+		this.fullTextIndex?.stop();
 		console.log('Ebook Reader plugin unloaded');
 	}
 }
@@ -696,9 +1123,32 @@ class EbookReaderSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 				
+		new Setting(containerEl)
+			.setName('Publisher Styles')
+			.setDesc('Use the stylesheets and fonts that come with each book on top of your reading settings')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reading.publisherStyles)
+				.onChange(async (value) => {
+					this.plugin.settings.reading.publisherStyles = value;
+					await this.plugin.saveSettings();
+				}));
+				
+		new Setting(containerEl)
+			.setName('Reading Mode')
+			.setDesc('Scroll through each chapter, scroll through the whole book without stopping at chapter ends, or read page by page')
+			.addDropdown(dropdown => dropdown
+				.addOption('scrolled-doc', 'Scroll')
+				.addOption('scrolled-continuous', 'Continuous Scroll')
+				.addOption('paginated', 'Paginated')
+				.setValue(this.plugin.settings.reading.flow)
+				.onChange(async (value: ReadingFlow) => {
+					this.plugin.settings.reading.flow = value;
+					await this.plugin.saveSettings();
+				}));
+				
 		new Setting(containerEl)
 			.setName('Page Turn Animation')
-			.setDesc('Enable or disable page turn animations')
+			.setDesc('Slide to the next page when turning pages in paginated mode')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.reading.pageTurnAnimation)
 				.onChange(async (value) => {
@@ -706,6 +1156,41 @@ class EbookReaderSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 				
+		// Annotation export settings
+		containerEl.createEl('h3', {text: 'Annotation Export'});
+		
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Folder for the literature notes of books. Leave empty to use the library folder.')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.libraryPath)
+				.setValue(this.plugin.settings.export.folder)
+				.onChange(async (value) => {
+					this.plugin.settings.export.folder = value.trim().replace(/\/+$/, '');
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('Export Template')
+			.setDesc('Format of the annotations in the note. Use {{title}}, {{author}} and the other book fields, {{#chapters}} with {{#highlights}} and {{#notes}} inside, and {{#bookmarks}}. Only the part between the export markers is replaced when exporting again.')
+			.addTextArea(text => {
+				text.inputEl.addClass('ebook-export-template');
+				text
+					.setValue(this.plugin.settings.export.template || DEFAULT_EXPORT_TEMPLATE)
+					.onChange(async (value) => {
+						// Keep following the default until the template is changed
+						this.plugin.settings.export.template = value === DEFAULT_EXPORT_TEMPLATE ? '' : value;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Reset')
+				.onClick(async () => {
+					this.plugin.settings.export.template = '';
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
 		// Cloud Service Settings
 		containerEl.createEl('h3', {text: 'Cloud Services'});
 		
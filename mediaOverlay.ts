@@ -0,0 +1,239 @@
+import { parseXml } from './utils';
+import { resolveRelativePath } from './epubParser';
+
+/**
+ * One synchronization point of an EPUB 3 media overlay: a text fragment and the audio that narrates it
+ */
+export interface MediaOverlayClip {
+    textPath: string; // Archive path of the text document
+    fragment: string; // ID of the narrated element
+    audioPath: string; // Archive path of the audio file
+    clipBegin: number; // Seconds
+    clipEnd: number; // Seconds, Infinity when the clip runs to the end of the file
+}
+
+/**
+ * Parse a SMIL document into its clips in playback order
+ */
+export function parseSmil(xml: string, smilPath: string): MediaOverlayClip[] {
+    const doc = parseXml(xml);
+    const clips: MediaOverlayClip[] = [];
+
+    // Nested seq elements only group pars, so the pars in document order are the playback order
+    Array.from(doc.getElementsByTagNameNS('*', 'par')).forEach(par => {
+        const textEl = par.getElementsByTagNameNS('*', 'text')[0];
+        const audioEl = par.getElementsByTagNameNS('*', 'audio')[0];
+
+        const textSrc = textEl?.getAttribute('src');
+        const audioSrc = audioEl?.getAttribute('src');
+        if (!textSrc || !audioSrc) return;
+
+        const [textHref, fragment] = textSrc.split('#');
+        if (!fragment) return;
+
+        clips.push({
+            textPath: resolveRelativePath(decodeURIComponent(textHref), smilPath),
+            fragment: decodeURIComponent(fragment),
+            audioPath: resolveRelativePath(decodeURIComponent(audioSrc), smilPath),
+            clipBegin: parseClockValue(audioEl.getAttribute('clipBegin')) ?? 0,
+            clipEnd: parseClockValue(audioEl.getAttribute('clipEnd')) ?? Infinity
+        });
+    });
+
+    return clips;
+}
+
+/**
+ * Parse a SMIL clock value such as "0:01:02.5", "12.5s", "500ms" or "1.5min" into seconds
+ */
+export function parseClockValue(value: string | null): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+
+    // Full or partial clock values
+    const clockMatch = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+    if (clockMatch) {
+        const hours = parseInt(clockMatch[1] || '0', 10);
+        const minutes = parseInt(clockMatch[2], 10);
+        const seconds = parseFloat(clockMatch[3]);
+        return hours * 3600 + minutes * 60 + seconds;
+    }
+
+    // Timecount values with an optional metric
+    const timecountMatch = trimmed.match(/^(\d+(?:\.\d+)?)(h|min|s|ms)?$/);
+    if (timecountMatch) {
+        const amount = parseFloat(timecountMatch[1]);
+        switch (timecountMatch[2]) {
+            case 'h':
+                return amount * 3600;
+            case 'min':
+                return amount * 60;
+            case 'ms':
+                return amount / 1000;
+            default:
+                return amount;
+        }
+    }
+
+    return null;
+}
+
+export interface MediaOverlayCallbacks {
+    onClipChange: (clip: MediaOverlayClip | null) => void; // Called with null when playback stops
+    onEnd: () => void; // Called after the last clip of the document has played
+}
+
+// Gap between consecutive clips that is played through rather than seeked over, in seconds
+const CONTIGUOUS_TOLERANCE = 0.25;
+
+/**
+ * Plays the clips of a media overlay in order and reports the active clip
+ */
+export class MediaOverlayPlayer {
+    private audio: HTMLAudioElement;
+    private clips: MediaOverlayClip[] = [];
+    private clipIndex: number = -1;
+    private audioPath: string | null = null;
+    private playing: boolean = false;
+    private resolveUrl: (path: string) => Promise<string | null>;
+    private callbacks: MediaOverlayCallbacks;
+
+    constructor(resolveUrl: (path: string) => Promise<string | null>, callbacks: MediaOverlayCallbacks) {
+        this.resolveUrl = resolveUrl;
+        this.callbacks = callbacks;
+
+        this.audio = new Audio();
+        this.audio.addEventListener('timeupdate', () => this.handleTimeUpdate());
+        this.audio.addEventListener('ended', () => this.advance());
+    }
+
+    // Replace the clips being played, stopping any current playback. The audio is let go as well,
+    // since its URL may belong to a book that has been closed since.
+    load(clips: MediaOverlayClip[]) {
+        this.stop();
+        this.releaseAudio();
+        this.clips = clips;
+    }
+
+    hasClips(): boolean {
+        return this.clips.length > 0;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    // Start playing at the clip for the given fragment, or resume where playback was paused
+    async play(fragment?: string) {
+        if (this.clips.length === 0) return;
+
+        let index = this.clipIndex;
+        if (fragment) {
+            const fragmentIndex = this.clips.findIndex(clip => clip.fragment === fragment);
+            if (fragmentIndex !== -1) index = fragmentIndex;
+        }
+
+        this.playing = true;
+        if (index === this.clipIndex && index !== -1 && this.audioPath) {
+            await this.startAudio();
+        } else {
+            await this.playClip(Math.max(index, 0));
+        }
+    }
+
+    pause() {
+        this.playing = false;
+        this.audio.pause();
+    }
+
+    // Stop playback and forget the position
+    stop() {
+        const wasActive = this.clipIndex !== -1;
+        this.pause();
+        this.clipIndex = -1;
+        if (wasActive) {
+            this.callbacks.onClipChange(null);
+        }
+    }
+
+    destroy() {
+        this.stop();
+        this.releaseAudio();
+    }
+
+    private releaseAudio() {
+        this.audio.removeAttribute('src');
+        this.audio.load();
+        this.audioPath = null;
+    }
+
+    private async playClip(index: number) {
+        const clip = this.clips[index];
+        if (!clip) {
+            this.finish();
+            return;
+        }
+
+        this.clipIndex = index;
+        this.callbacks.onClipChange(clip);
+
+        if (clip.audioPath !== this.audioPath) {
+            const url = await this.resolveUrl(clip.audioPath);
+            // Playback may have been stopped or moved on while the audio was loading
+            if (this.clipIndex !== index || !this.playing) return;
+            if (!url) {
+                console.error(`Media overlay audio not found: ${clip.audioPath}`);
+                this.finish();
+                return;
+            }
+
+            this.audio.src = url;
+            this.audioPath = clip.audioPath;
+        }
+
+        this.audio.currentTime = clip.clipBegin;
+        await this.startAudio();
+    }
+
+    private async startAudio() {
+        try {
+            await this.audio.play();
+        } catch (e) {
+            console.error('Error playing media overlay audio:', e);
+            this.pause();
+        }
+    }
+
+    private handleTimeUpdate() {
+        const clip = this.clips[this.clipIndex];
+        if (!this.playing || !clip || this.audio.currentTime < clip.clipEnd) return;
+        this.advance();
+    }
+
+    // Move on to the next clip, playing straight through when it continues the same audio
+    private advance() {
+        if (!this.playing) return;
+
+        const current = this.clips[this.clipIndex];
+        const nextIndex = this.clipIndex + 1;
+        const next = this.clips[nextIndex];
+        if (!next) {
+            this.finish();
+            return;
+        }
+
+        const contiguous = current && next.audioPath === current.audioPath && !this.audio.ended &&
+            Math.abs(next.clipBegin - current.clipEnd) <= CONTIGUOUS_TOLERANCE;
+        if (contiguous) {
+            this.clipIndex = nextIndex;
+            this.callbacks.onClipChange(next);
+        } else {
+            this.playClip(nextIndex);
+        }
+    }
+
+    private finish() {
+        this.stop();
+        this.callbacks.onEnd();
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * Helpers for loading a book's own stylesheets into the reader without
+ * letting them restyle the rest of Obsidian.
+ */
+
+/**
+ * Find all url() references in a stylesheet
+ */
+export function findCssUrls(css: string): string[] {
+    const urls = new Set<string>();
+    const regex = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(css)) !== null) {
+        const url = match[2].trim();
+        if (!isExternalUrl(url)) {
+            urls.add(url);
+        }
+    }
+
+    return Array.from(urls);
+}
+
+/**
+ * Replace url() references in a stylesheet using the given mapping
+ */
+export function rewriteCssUrls(css: string, urlMap: Map<string, string>): string {
+    return css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote, url) => {
+        const replacement = urlMap.get(url.trim());
+        return replacement ? `url("${replacement}")` : match;
+    });
+}
+
+/**
+ * Find the targets of @import rules in a stylesheet
+ */
+export function findCssImports(css: string): string[] {
+    const imports: string[] = [];
+    const regex = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?[^;]*;/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(css)) !== null) {
+        if (!isExternalUrl(match[2])) {
+            imports.push(match[2]);
+        }
+    }
+
+    return imports;
+}
+
+/**
+ * Rewrite a stylesheet so that its rules only apply inside the element matched by scope
+ */
+export function scopeStylesheet(css: string, scope: string): string {
+    // Let the browser parse the CSS in a detached document so nothing is applied yet
+    const doc = document.implementation.createHTMLDocument('');
+    const styleEl = doc.createElement('style');
+    styleEl.textContent = css;
+    doc.head.appendChild(styleEl);
+
+    const sheet = styleEl.sheet;
+    if (!sheet) return '';
+
+    try {
+        return scopeRules(sheet.cssRules, scope).join('\n');
+    } catch (e) {
+        console.error('Error scoping stylesheet:', e);
+        return '';
+    }
+}
+
+function scopeRules(rules: CSSRuleList, scope: string): string[] {
+    const output: string[] = [];
+
+    Array.from(rules).forEach(rule => {
+        if (rule instanceof CSSStyleRule) {
+            output.push(`${scopeSelector(rule.selectorText, scope)} { ${rule.style.cssText} }`);
+        } else if (rule instanceof CSSMediaRule) {
+            output.push(`@media ${rule.conditionText} {\n${scopeRules(rule.cssRules, scope).join('\n')}\n}`);
+        } else if (rule instanceof CSSSupportsRule) {
+            output.push(`@supports ${rule.conditionText} {\n${scopeRules(rule.cssRules, scope).join('\n')}\n}`);
+        } else if (rule instanceof CSSImportRule) {
+            // Imports are resolved and inlined by the loader
+            return;
+        } else {
+            // @font-face, @keyframes and similar rules do not select elements
+            output.push(rule.cssText);
+        }
+    });
+
+    return output;
+}
+
+/**
+ * Prefix every selector in a selector list with the scope, mapping the document root onto it
+ */
+function scopeSelector(selectorText: string, scope: string): string {
+    return splitSelectorList(selectorText)
+        .map(selector => {
+            const trimmed = selector.trim();
+
+            // html, :root and body all map onto the chapter container
+            const rootMatch = trimmed.match(/^(?:(?:html|:root)\s*(?:>\s*)?)?body\b|^(?:html|:root)(?![\w-])/i);
+            if (rootMatch) {
+                return `${scope}${trimmed.substring(rootMatch[0].length)}`;
+            }
+
+            return `${scope} ${trimmed}`;
+        })
+        .join(', ');
+}
+
+/**
+ * Split a selector list on top-level commas, ignoring commas inside :is(), :not() etc.
+ */
+function splitSelectorList(selectorText: string): string[] {
+    const selectors: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of selectorText) {
+        if (char === '(' || char === '[') depth++;
+        if (char === ')' || char === ']') depth--;
+
+        if (char === ',' && depth === 0) {
+            selectors.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) {
+        selectors.push(current);
+    }
+
+    return selectors;
+}
+
+function isExternalUrl(url: string): boolean {
+    return /^(?:[a-z]+:|#)/i.test(url);
+}
@@ -1,42 +1,84 @@
-import { ItemView, WorkspaceLeaf, Menu, TFile, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Menu, TFile, Notice, debounce } from 'obsidian';
 import { Book } from './libraryManager';
-import EbookReaderPlugin from './main';
-import { parseEpub, EpubContent, EpubNavPoint } from './epubParser';
+import EbookReaderPlugin, { ReadingFlow } from './main';
+import { parseEpub, EpubContent, EpubNavPoint, resolveRelativePath } from './epubParser';
+import { DrmProtectedError, describeEpubError } from './epubErrors';
+import { findNoteElement, getEpubTypes, isNoteref, isNotesDocument } from './footnotes';
+import { MediaOverlayClip, MediaOverlayPlayer } from './mediaOverlay';
+import { DEFAULT_VIEWPORT, PageViewport, fitScale, getSpread, parseViewport, shouldUseSpreads } from './fixedLayout';
+import { findCssImports, findCssUrls, rewriteCssUrls, scopeStylesheet } from './publisherStyles';
+import { parseXml } from './utils';
+import { CFI_ROOT_CLASS, DomPoint, createCfi, createCfiFromTextOffset, getCfiSpineItem, importChapterHtml, resolveCfi } from './epubCfi';
+import { anchorText, createTextAnchor, describeRange, rangeFromOffsets, wrapRange } from './textAnchor';
+import { BookmarkModal, NoteEditorModal } from './annotationModals';
+import { buildBookUri, formatLocation, formatMarkdownLink, parseLocation } from './bookLinks';
+import { BookSearch, MAX_SEARCH_RESULTS, SearchMatch, SearchOptions, formatMatchCount } from './bookSearch';
+import { getBookProgress, getProgressLocation } from './bookProgress';
+import { countWords, formatReadingTime } from './readingSpeed';
+import { ReadingSessionTracker } from './readingSessions';
 
 export const READER_VIEW_TYPE = 'ebook-reader-view';
 
+// Selector that publisher stylesheets are scoped to
+const CHAPTER_SCOPE = '.ebook-reader-chapter';
+
+// Blocks that are flashed when a link to a place inside them is opened
+const PASSAGE_SELECTOR = 'p, li, blockquote, h1, h2, h3, h4, h5, h6, figure, dd, dt, td, pre';
+
+// How long a linked passage stays flashed, in milliseconds
+const FLASH_DURATION = 2000;
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+export type AnnotationType = 'highlight' | 'note' | 'bookmark';
+
 export interface ReadingState {
     currentLocation: string; // Current chapter/section ID
     position: number; // Position within the current chapter (percentage or scroll position)
+    cfi?: string; // Precise location of the first text on screen, as an EPUB CFI
     bookmarks: Bookmark[];
     highlights: Highlight[];
     notes: Note[];
 }
 
-interface Bookmark {
+// A place to return to with Back and Forward
+interface HistoryEntry {
+    location: string;
+    position: number;
+    cfi?: string;
+}
+
+export interface Bookmark {
     id: string;
     chapterId: string;
     position: number;
+    cfi?: string;
     createdAt: number;
     title: string;
 }
 
-interface Highlight {
+export interface Highlight {
     id: string;
     chapterId: string;
-    text: string;
-    startOffset: number;
+    text: string; // Quote of the highlighted text
+    prefix?: string; // Text just before the quote
+    suffix?: string; // Text just after the quote
+    startOffset: number; // Character offsets of the quote in the chapter text
     endOffset: number;
+    cfi?: string; // Range of the highlighted text
     color: string;
     createdAt: number;
 }
 
-interface Note {
+export interface Note {
     id: string;
     chapterId: string;
-    text: string;
+    text: string; // Markdown
+    quote?: string; // Book text the note was made on
+    tags?: string[];
     associatedHighlightId?: string;
     position: number;
+    cfi?: string;
     createdAt: number;
     updatedAt: number;
 }
@@ -50,18 +92,81 @@ export class ReaderView extends ItemView {
     
     private headerEl: HTMLElement;
     private tocEl: HTMLElement;
+    private searchEl: HTMLElement;
     private readerEl: HTMLElement;
     private footerEl: HTMLElement;
     
     private currentChapterIndex: number = 0;
     private totalChapters: number = 0;
     
-    // Array to store blob URLs for cleanup
-    private blobUrls: string[] = [];
+    // Spine items on screen; more than one when a fixed-layout spread is shown
+    private currentSpread: string[] = [];
+    
+    // Paginated mode: the page shown and the distance between the starts of two pages
+    private currentPage: number = 0;
+    private pageStride: number = 0;
+    
+    // Continuous mode: set while adjacent chapters are being loaded or unloaded
+    private extendingSections: boolean = false;
+    
+    // Blob URLs of loaded resources, keyed by archive path, for reuse and cleanup
+    private resourceUrls: Map<string, string> = new Map();
+    
+    // Scoped publisher stylesheets, keyed by scope and archive path
+    private stylesheetCache: Map<string, string> = new Map();
+    
+    // Incremented on every navigation so stale chapter loads can be discarded
+    private navigationId: number = 0;
+    
+    // Read-along playback of EPUB 3 media overlays
+    private mediaPlayer: MediaOverlayPlayer;
+    private readAloud: boolean = false; // Whether narration should keep playing across chapters
+    private readAloudBtn: HTMLElement | null = null;
+    private activeFragmentEl: HTMLElement | null = null;
+    
+    // Popover showing the note of a clicked noteref link
+    private footnotePopoverEl: HTMLElement | null = null;
+    
+    // Locations left by following links in the book
+    private backStack: HistoryEntry[] = [];
+    private forwardStack: HistoryEntry[] = [];
+    private backBtn: HTMLButtonElement | null = null;
+    private forwardBtn: HTMLButtonElement | null = null;
+    
+    // Number of annotations shown on the header button
+    private annotationCountEl: HTMLElement | null = null;
+    
+    // Full-text search of the open book
+    private bookSearch: BookSearch | null = null;
+    private searchQuery: string = '';
+    private searchOptions: SearchOptions = { caseSensitive: false, wholeWord: false };
+    private searchInputEl: HTMLInputElement | null = null;
+    private searchStatusEl: HTMLElement | null = null;
+    private searchResultsEl: HTMLElement | null = null;
+    private searchMatchEls: HTMLElement[] = [];
+    private searchLeftFrom: HistoryEntry | null = null; // Where the reader was before jumping to the first match
+    
+    // The book's progress is saved to the library once scrolling settles
+    private saveBookProgress = debounce(() => {
+        if (this.book) this.plugin.library.updateBook(this.book);
+    }, 2000);
+    
+    // Sessions of reading in this view, for the reading statistics
+    private sessionTracker: ReadingSessionTracker;
     
     constructor(leaf: WorkspaceLeaf, plugin: EbookReaderPlugin) {
         super(leaf);
         this.plugin = plugin;
+        
+        this.sessionTracker = new ReadingSessionTracker(async (bookId, session) => {
+            await this.plugin.storageManager.saveReadingSession(bookId, session);
+            this.plugin.refreshStatisticsViews();
+        });
+        
+        this.mediaPlayer = new MediaOverlayPlayer(path => this.getResourceUrl(path), {
+            onClipChange: clip => this.highlightMediaFragment(clip),
+            onEnd: () => this.handleMediaOverlayEnd()
+        });
     }
 
     getViewType(): string {
@@ -76,9 +181,17 @@ export class ReaderView extends ItemView {
         return 'book-open';
     }
 
+    // The book currently shown in this view
+    getBook(): Book | null {
+        return this.book;
+    }
+
     async onOpen() {
         // Create the main container for the reader
-        this.containerDiv = this.containerEl.createDiv({ cls: 'ebook-reader-container' });
+        this.containerDiv = this.containerEl.createDiv({ 
+            cls: 'ebook-reader-container',
+            attr: { tabindex: '-1' } // Focusable so keyboard navigation works after clicking the page
+        });
         
         // Create the header, TOC sidebar, reader content, and footer areas
         this.headerEl = this.containerDiv.createDiv({ cls: 'ebook-reader-header' });
@@ -86,12 +199,54 @@ export class ReaderView extends ItemView {
         const mainAreaEl = this.containerDiv.createDiv({ cls: 'ebook-reader-main' });
         this.tocEl = mainAreaEl.createDiv({ cls: 'ebook-reader-toc' });
         this.readerEl = mainAreaEl.createDiv({ cls: 'ebook-reader-content' });
+        this.searchEl = mainAreaEl.createDiv({ cls: 'ebook-reader-search' });
         
         this.footerEl = this.containerDiv.createDiv({ cls: 'ebook-reader-footer' });
         
         // Apply the current theme and reading settings
         this.applyReadingSettings();
         
+        // Keyboard navigation
+        this.registerDomEvent(this.containerEl, 'keydown', (evt: KeyboardEvent) => {
+            this.handleKeydown(evt);
+        });
+        
+        // Links inside the book content
+        this.registerDomEvent(this.containerDiv, 'click', (evt: MouseEvent) => {
+            this.handleContentClick(evt);
+        });
+        
+        // Highlights have their own menu
+        this.registerDomEvent(this.readerEl, 'contextmenu', (evt: MouseEvent) => {
+            const highlightEl = (evt.target as HTMLElement)?.closest('.ebook-highlight');
+            const highlightId = highlightEl?.getAttribute('data-highlight-id');
+            if (highlightId) {
+                evt.preventDefault();
+                this.showHighlightMenu(evt, highlightId);
+            }
+        });
+        
+        // Selecting, highlighting and other clicks count as reading, even without moving through the book
+        this.registerDomEvent(this.readerEl, 'pointerdown', () => {
+            this.recordReadingActivity();
+        });
+        
+        // Keep the saved position in step with scrolling
+        const savePosition = debounce(() => {
+            this.updateLocationCfi();
+            this.saveReadingState();
+        }, 1000);
+        this.registerDomEvent(this.readerEl, 'scroll', () => {
+            if (!this.readingState || this.isPaginated() || !this.getChapterEl()) return;
+            if (this.isContinuous()) {
+                this.updateCurrentSection();
+                this.extendContinuous();
+            }
+            this.readingState.position = this.getScrollPercent();
+            this.updateProgressDisplay();
+            savePosition();
+        });
+        
         // If we have a previously loaded book, display it
         if (this.book && this.epubContent) {
             this.renderBook();
@@ -101,12 +256,26 @@ export class ReaderView extends ItemView {
     }
 
     async loadBook(book: Book) {
+        this.sessionTracker.end();
+        this.saveBookProgress.run(); // Save the progress of the book being left
         this.book = book;
+        this.readAloud = false;
+        this.mediaPlayer.load([]);
+        this.closeFootnote();
+        this.backStack = [];
+        this.forwardStack = [];
+        this.releaseResources();
+        this.bookSearch?.cancel();
+        this.bookSearch = null;
+        this.searchQuery = '';
+        this.searchMatchEls = [];
         
         // Clear current content
         if (this.readerEl) {
             this.readerEl.empty();
             this.tocEl.empty();
+            this.searchEl.empty();
+            this.searchEl.toggleClass('ebook-reader-search-visible', false);
             this.headerEl.empty();
             this.footerEl.empty();
         }
@@ -129,33 +298,28 @@ export class ReaderView extends ItemView {
             
             // Parse the EPUB
             this.epubContent = await parseEpub(data);
+            this.bookSearch = new BookSearch(this.epubContent);
             
             console.log(`EPUB parsed. Spine items: ${this.epubContent.spine?.items?.length || 0}`);
-            console.log(`Content keys: ${Object.keys(this.epubContent.content || {}).length}`);
             
-            // Debug: Print spine items and available content
+            // Debug: Print spine items
             console.log("Spine items:", this.epubContent.spine?.items);
-            console.log("Content keys:", Object.keys(this.epubContent.content || {}));
-            
-            if (!this.epubContent.spine || !this.epubContent.spine.items || this.epubContent.spine.items.length === 0) {
-                throw new Error("No spine items found in EPUB");
-            }
-            
-            if (!this.epubContent.content || Object.keys(this.epubContent.content).length === 0) {
-                throw new Error("No content found in EPUB");
-            }
             
-            // Check if spine items exist in content
+            // Check if spine items exist in the archive
             const missingContent = this.epubContent.spine.items.filter(
-                id => this.epubContent?.content && !this.epubContent.content[id]
+                id => this.epubContent && !this.epubContent.hasChapter(id)
             );
+            if (missingContent.length === this.epubContent.spine.items.length) {
+                throw new Error("No content found in EPUB");
+            }
             if (missingContent.length > 0) {
                 console.warn(`Missing content for spine items: ${missingContent.join(', ')}`);
             }
             
             // Load or initialize reading state
+            const firstChapter = this.epubContent.spine.items.find(id => this.epubContent?.isLinear(id));
             this.readingState = await this.plugin.storageManager.getReadingState(book.id) || {
-                currentLocation: this.epubContent.spine.items[0] || '',
+                currentLocation: firstChapter || this.epubContent.spine.items[0] || '',
                 position: 0,
                 bookmarks: [],
                 highlights: [],
@@ -163,11 +327,11 @@ export class ReaderView extends ItemView {
             };
             
             // Ensure current location is valid
-            if (!this.epubContent.content[this.readingState.currentLocation]) {
+            if (!this.epubContent.hasChapter(this.readingState.currentLocation)) {
                 console.warn(`Invalid location ${this.readingState.currentLocation}, resetting`);
                 // Find first item with content
                 for (const id of this.epubContent.spine.items) {
-                    if (this.epubContent.content[id]) {
+                    if (this.epubContent.hasChapter(id)) {
                         this.readingState.currentLocation = id;
                         this.readingState.position = 0;
                         break;
@@ -175,16 +339,86 @@ export class ReaderView extends ItemView {
                 }
             }
             
+            // Locations saved before CFIs were used only have percentages
+            await this.migrateLocations();
+            
             // Render the book content
             this.renderBook();
+            this.plugin.refreshAnnotationsViews();
+            
+            // Progress is weighted by the length of each chapter, measured in the background
+            this.measureContent();
             
         } catch (error) {
             console.error('Error loading book:', error);
+            this.epubContent = null;
             this.readerEl?.empty();
             this.readerEl?.createDiv({ 
-                text: `Error loading book: ${error.message}`, 
+                text: `Error loading book: ${describeEpubError(error)}`, 
                 cls: 'ebook-reader-error' 
             });
+            
+            // Flag DRM-protected books so the library can show it
+            if (error instanceof DrmProtectedError && book.drm !== error.scheme) {
+                book.drm = error.scheme;
+                this.plugin.library.updateBook(book);
+            }
+        }
+    }
+
+    // Give locations saved as percentages a CFI, and highlights a CFI of their text
+    private async migrateLocations() {
+        if (!this.book || !this.epubContent || !this.readingState) return;
+        
+        const state = this.readingState;
+        const spine = this.epubContent.spine.items;
+        
+        // Chapters are parsed the same way they are rendered so the CFIs resolve on screen
+        const roots = new Map<string, Element | null>();
+        const getRoot = async (itemId: string): Promise<Element | null> => {
+            if (!roots.has(itemId)) {
+                const content = await this.epubContent?.getChapter(itemId);
+                roots.set(itemId, content ? importChapterHtml(content).querySelector(`.${CFI_ROOT_CLASS}`) : null);
+            }
+            return roots.get(itemId) || null;
+        };
+        const fromPosition = async (itemId: string, position: number): Promise<string | undefined> => {
+            const root = await getRoot(itemId);
+            if (!root || !spine.includes(itemId)) return undefined;
+            
+            const offset = Math.floor(((root.textContent || '').length * position) / 100);
+            return createCfiFromTextOffset(spine.indexOf(itemId), itemId, root, offset) || undefined;
+        };
+        
+        let migrated = false;
+        try {
+            if (!state.cfi && state.position > 0) {
+                state.cfi = await fromPosition(state.currentLocation, state.position);
+                migrated = migrated || !!state.cfi;
+            }
+            
+            for (const located of [...state.bookmarks, ...state.notes]) {
+                if (located.cfi) continue;
+                located.cfi = await fromPosition(located.chapterId, located.position);
+                migrated = migrated || !!located.cfi;
+            }
+            
+            for (const highlight of state.highlights) {
+                if (highlight.cfi || !spine.includes(highlight.chapterId)) continue;
+                
+                const root = await getRoot(highlight.chapterId);
+                const offset = root ? (root.textContent || '').indexOf(highlight.text) : -1;
+                if (!root || offset === -1) continue;
+                
+                highlight.cfi = createCfiFromTextOffset(spine.indexOf(highlight.chapterId), highlight.chapterId, root, offset, highlight.text.length) || undefined;
+                migrated = migrated || !!highlight.cfi;
+            }
+        } catch (e) {
+            console.error('Error migrating reading locations:', e);
+        }
+        
+        if (migrated) {
+            await this.plugin.storageManager.saveReadingState(this.book.id, state);
         }
     }
 
@@ -194,6 +428,7 @@ export class ReaderView extends ItemView {
         // Clear everything
         this.headerEl.empty();
         this.tocEl.empty();
+        this.searchEl.empty();
         this.readerEl.empty();
         this.footerEl.empty();
         
@@ -203,6 +438,9 @@ export class ReaderView extends ItemView {
         // Set up the table of contents
         this.renderTOC();
         
+        // Set up the search panel
+        this.renderSearchPanel();
+        
         // Set up the content area
         this.renderContent();
         
@@ -210,7 +448,7 @@ export class ReaderView extends ItemView {
         this.renderFooter();
         
         // Navigate to the saved position
-        this.navigateToLocation(this.readingState.currentLocation, this.readingState.position);
+        this.navigateToLocation(this.readingState.currentLocation, this.readingState.position, undefined, this.readingState.cfi);
     }
 
     private renderHeader() {
@@ -225,6 +463,26 @@ export class ReaderView extends ItemView {
             this.plugin.openLibraryView();
         });
         
+        // History buttons for returning from followed links
+        this.backBtn = headerControls.createEl('button', {
+            text: 'Back',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Go back to where you followed a link' }
+        });
+        this.backBtn.addEventListener('click', () => {
+            this.goBack();
+        });
+        
+        this.forwardBtn = headerControls.createEl('button', {
+            text: 'Forward',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Go forward again' }
+        });
+        this.forwardBtn.addEventListener('click', () => {
+            this.goForward();
+        });
+        this.updateHistoryButtons();
+        
         // Book title
         this.headerEl.createEl('h2', {
             text: this.book?.title || 'Unknown Book',
@@ -243,6 +501,30 @@ export class ReaderView extends ItemView {
             this.tocEl.toggleClass('ebook-reader-toc-visible', true);
         });
         
+        // Search panel toggle button
+        rightControls.createEl('button', {
+            text: 'Search',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Search the book' }
+        }).addEventListener('click', () => {
+            if (this.searchEl.hasClass('ebook-reader-search-visible')) {
+                this.closeSearch();
+            } else {
+                this.openSearch();
+            }
+        });
+        
+        // Read-along button, only shown for chapters with a media overlay
+        this.readAloudBtn = rightControls.createEl('button', {
+            text: 'Read Aloud',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Play or pause the narration' }
+        });
+        this.readAloudBtn.addEventListener('click', () => {
+            this.toggleReadAloud();
+        });
+        this.updateReadAloudButton();
+        
         // Settings button
         rightControls.createEl('button', {
             text: 'Settings',
@@ -260,6 +542,228 @@ export class ReaderView extends ItemView {
         }).addEventListener('click', (event) => {
             this.showBookmarksMenu(event);
         });
+        
+        // Annotations sidebar button with the number of annotations
+        const annotationsBtn = rightControls.createEl('button', {
+            text: 'Annotations',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Show highlights, notes and bookmarks' }
+        });
+        this.annotationCountEl = annotationsBtn.createSpan({ cls: 'ebook-reader-badge' });
+        annotationsBtn.addEventListener('click', () => {
+            this.plugin.openAnnotationsView();
+        });
+        this.updateAnnotationCount();
+        
+        // Write the annotations to the book's literature note
+        rightControls.createEl('button', {
+            text: 'Export',
+            cls: 'ebook-reader-btn',
+            attr: { title: 'Export highlights and notes to a note' }
+        }).addEventListener('click', () => {
+            if (this.book) {
+                this.plugin.exportAnnotations(this.book);
+            }
+        });
+    }
+
+    private updateAnnotationCount() {
+        if (!this.annotationCountEl) return;
+        
+        const state = this.readingState;
+        const count = state ? state.highlights.length + state.notes.length + state.bookmarks.length : 0;
+        this.annotationCountEl.setText(count.toString());
+        this.annotationCountEl.toggle(count > 0);
+    }
+
+    // Keep the header badge and the annotations sidebar in step with the annotations
+    private annotationsChanged() {
+        this.updateAnnotationCount();
+        this.plugin.refreshAnnotationsViews();
+    }
+
+    // Annotations of the open book, for the annotations sidebar
+    getAnnotations(): { bookmarks: Bookmark[]; highlights: Highlight[]; notes: Note[] } | null {
+        if (!this.readingState) return null;
+        
+        const { bookmarks, highlights, notes } = this.readingState;
+        return { bookmarks, highlights, notes };
+    }
+
+    // Position of a chapter in reading order
+    getSpineIndex(itemId: string): number {
+        return this.epubContent?.spine.items.indexOf(itemId) ?? -1;
+    }
+
+    // Title of a chapter from the table of contents
+    getChapterTitle(itemId: string): string {
+        return this.epubContent?.getChapterLabel(itemId) || `Chapter ${this.getSpineIndex(itemId) + 1}`;
+    }
+
+    goToAnnotation(chapterId: string, position: number, cfi?: string) {
+        this.navigateToLocation(chapterId, position, undefined, cfi);
+    }
+
+    updateNoteText(id: string, text: string) {
+        const note = this.readingState?.notes.find(n => n.id === id);
+        if (!note) return;
+        
+        note.text = text;
+        note.updatedAt = Date.now();
+        this.saveReadingState();
+        this.annotationsChanged();
+    }
+
+    recolorHighlight(id: string, color: string) {
+        const highlight = this.readingState?.highlights.find(h => h.id === id);
+        if (!highlight) return;
+        
+        highlight.color = color;
+        this.saveReadingState();
+        this.getHighlightEls(id).forEach(el => el.style.backgroundColor = color);
+        this.annotationsChanged();
+    }
+
+    deleteAnnotation(type: AnnotationType, id: string) {
+        if (!this.readingState) return;
+        
+        if (type === 'highlight') {
+            this.readingState.highlights = this.readingState.highlights.filter(h => h.id !== id);
+            this.readingState.notes.forEach(note => {
+                if (note.associatedHighlightId === id) note.associatedHighlightId = undefined;
+            });
+            
+            // Unwrap the highlighted text on screen
+            this.getHighlightEls(id).forEach(el => {
+                const parent = el.parentNode;
+                el.replaceWith(...Array.from(el.childNodes));
+                parent?.normalize();
+            });
+        } else if (type === 'note') {
+            this.readingState.notes = this.readingState.notes.filter(n => n.id !== id);
+        } else {
+            this.readingState.bookmarks = this.readingState.bookmarks.filter(b => b.id !== id);
+        }
+        
+        this.saveReadingState();
+        this.annotationsChanged();
+    }
+
+    // Open a place from a link: a highlight, a CFI, or a chapter and percentage, and flash the passage
+    async openLink(loc?: string, highlightId?: string) {
+        if (!this.epubContent || !this.readingState) return;
+        
+        if (highlightId) {
+            const highlight = this.readingState.highlights.find(h => h.id === highlightId);
+            if (highlight) {
+                await this.navigateToLocation(highlight.chapterId, 0, undefined, highlight.cfi);
+                this.flashElements(this.getHighlightEls(highlight.id));
+                return;
+            }
+            new Notice('The linked highlight no longer exists in this book');
+        }
+        
+        const location = loc ? parseLocation(loc) : null;
+        if (!location) return;
+        
+        if ('cfi' in location) {
+            const itemId = this.getCfiItemId(location.cfi);
+            if (!itemId || !this.epubContent.hasChapter(itemId)) {
+                new Notice('The linked location could not be found in this book');
+                return;
+            }
+            await this.navigateToLocation(itemId, 0, undefined, location.cfi);
+            
+            const root = this.getCfiRoot(itemId);
+            const range = root ? resolveCfi(location.cfi, root) : null;
+            if (range) this.flashPassage(range.startContainer);
+        } else {
+            if (!this.epubContent.hasChapter(location.chapterId)) {
+                new Notice('The linked location could not be found in this book');
+                return;
+            }
+            await this.navigateToLocation(location.chapterId, location.position);
+            
+            const root = this.getCfiRoot(location.chapterId);
+            const point = root ? this.findFirstVisiblePoint(root) : null;
+            if (point) this.flashPassage(point.node);
+        }
+    }
+
+    // Markdown link to the text on screen, for citing it in a note
+    getLocationLink(): string | null {
+        if (!this.book || !this.readingState) return null;
+        
+        const chapterId = this.readingState.currentLocation;
+        const cfi = this.getVisibleCfi();
+        const loc = formatLocation(cfi ? { cfi } : { chapterId, position: this.readingState.position });
+        const uri = buildBookUri(this.app.vault.getName(), this.book.id, { loc });
+        return formatMarkdownLink(`${this.book.title}, ${this.getChapterTitle(chapterId)}`, uri);
+    }
+
+    getHighlightLink(id: string): string | null {
+        const highlight = this.readingState?.highlights.find(h => h.id === id);
+        if (!this.book || !highlight) return null;
+        
+        // The location lets the link work even if the highlight is deleted later
+        const loc = formatLocation(highlight.cfi ? { cfi: highlight.cfi } : { chapterId: highlight.chapterId, position: 0 });
+        const uri = buildBookUri(this.app.vault.getName(), this.book.id, { loc, highlight: highlight.id });
+        
+        const text = highlight.text.replace(/\s+/g, ' ').trim();
+        const quote = text.length > 60 ? `${text.substring(0, 60).trim()}…` : text;
+        return formatMarkdownLink(`“${quote}”, ${this.book.title}`, uri);
+    }
+
+    copyLocationLink() {
+        this.copyLink(this.getLocationLink());
+    }
+
+    private copyLink(link: string | null) {
+        if (!link) return;
+        navigator.clipboard.writeText(link).then(
+            () => new Notice('Link copied'),
+            e => console.error('Error copying link:', e)
+        );
+    }
+
+    private showHighlightMenu(evt: MouseEvent, id: string) {
+        const menu = new Menu();
+        
+        menu.addItem(item => {
+            item
+                .setTitle('Copy link to highlight')
+                .onClick(() => {
+                    this.copyLink(this.getHighlightLink(id));
+                });
+        });
+        
+        menu.addItem(item => {
+            item
+                .setTitle('Remove highlight')
+                .onClick(() => {
+                    this.deleteAnnotation('highlight', id);
+                });
+        });
+        
+        menu.showAtMouseEvent(evt);
+    }
+
+    // Briefly mark the passage around a node
+    private flashPassage(node: Node) {
+        const el = node instanceof Element ? node : node.parentElement;
+        const passageEl = el?.closest(PASSAGE_SELECTOR) || el;
+        if (passageEl instanceof HTMLElement) {
+            this.flashElements([passageEl]);
+        }
+    }
+
+    private flashElements(els: HTMLElement[]) {
+        els.forEach(el => el.addClass('ebook-flash'));
+        window.setTimeout(() => els.forEach(el => el.removeClass('ebook-flash')), FLASH_DURATION);
+    }
+
+    private getHighlightEls(id: string): HTMLElement[] {
+        return Array.from(this.readerEl?.querySelectorAll(`.ebook-highlight[data-highlight-id="${CSS.escape(id)}"]`) || []) as HTMLElement[];
     }
 
     private renderTOC() {
@@ -284,10 +788,10 @@ export class ReaderView extends ItemView {
         if (this.epubContent.navPoints && this.epubContent.navPoints.length > 0) {
             this.renderNavPoints(this.epubContent.navPoints, tocList);
         } else {
-            // Fallback to spine items
+            // Fallback to the linear spine items
             this.epubContent.spine.items.forEach((itemId: string, index: number) => {
                 const item = this.epubContent?.manifest[itemId];
-                if (item) {
+                if (item && this.epubContent?.isLinear(itemId)) {
                     const li = tocList.createEl('li');
                     const link = li.createEl('a', {
                         text: `Chapter ${index + 1}`,
@@ -303,8 +807,187 @@ export class ReaderView extends ItemView {
         }
     }
 
+    private renderSearchPanel() {
+        const headingEl = this.searchEl.createDiv({ cls: 'ebook-reader-search-heading' });
+        headingEl.createEl('h3', { text: 'Search' });
+        headingEl.createEl('button', {
+            text: 'Close',
+            cls: 'ebook-reader-btn'
+        }).addEventListener('click', () => {
+            this.closeSearch();
+        });
+        
+        this.searchInputEl = this.searchEl.createEl('input', {
+            type: 'search',
+            cls: 'ebook-reader-search-input',
+            attr: { placeholder: 'Find in book' }
+        });
+        this.searchInputEl.value = this.searchQuery;
+        
+        // Search as the query is typed, once typing pauses
+        const scheduleSearch = debounce(() => this.runSearch(), 300, true);
+        this.searchInputEl.addEventListener('input', () => {
+            this.searchQuery = this.searchInputEl?.value || '';
+            scheduleSearch();
+        });
+        this.searchInputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+            if (evt.key === 'Enter') {
+                evt.preventDefault();
+                this.runSearch();
+            } else if (evt.key === 'Escape') {
+                evt.preventDefault();
+                this.closeSearch();
+            }
+        });
+        
+        const optionsEl = this.searchEl.createDiv({ cls: 'ebook-reader-search-options' });
+        const addOption = (label: string, key: keyof SearchOptions) => {
+            const labelEl = optionsEl.createEl('label');
+            const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.searchOptions[key];
+            labelEl.appendText(label);
+            checkbox.addEventListener('change', () => {
+                this.searchOptions[key] = checkbox.checked;
+                this.runSearch();
+            });
+        };
+        addOption('Match case', 'caseSensitive');
+        addOption('Whole words', 'wholeWord');
+        
+        this.searchStatusEl = this.searchEl.createDiv({ cls: 'ebook-reader-search-status' });
+        this.searchResultsEl = this.searchEl.createDiv({ cls: 'ebook-reader-search-results' });
+    }
+
+    // Show the search panel with the query selected, ready to be replaced
+    openSearch() {
+        if (!this.epubContent) return;
+        
+        this.searchEl.toggleClass('ebook-reader-search-visible', true);
+        this.searchInputEl?.focus();
+        this.searchInputEl?.select();
+    }
+
+    private closeSearch() {
+        this.searchEl.toggleClass('ebook-reader-search-visible', false);
+        this.bookSearch?.cancel();
+        this.clearSearchMatch();
+        this.containerDiv.focus();
+    }
+
+    // Search every chapter of the book, listing matches as each chapter is searched
+    private async runSearch() {
+        if (!this.bookSearch || !this.searchResultsEl || !this.searchStatusEl) return;
+        
+        const resultsEl = this.searchResultsEl;
+        const statusEl = this.searchStatusEl;
+        resultsEl.empty();
+        this.clearSearchMatch();
+        this.searchLeftFrom = null;
+        
+        const query = this.searchQuery.trim();
+        if (!query) {
+            this.bookSearch.cancel();
+            statusEl.setText('');
+            return;
+        }
+        
+        let count = 0;
+        let groupEl: HTMLElement | null = null;
+        let groupItemId: string | null = null;
+        statusEl.setText('Searching...');
+        
+        try {
+            const complete = await this.bookSearch.search(query, { ...this.searchOptions }, (matches, searched, total) => {
+                matches.forEach(match => {
+                    if (!groupEl || match.itemId !== groupItemId) {
+                        groupItemId = match.itemId;
+                        groupEl = resultsEl.createDiv({ cls: 'ebook-reader-search-group' });
+                        groupEl.createEl('h4', { text: this.getChapterTitle(match.itemId) });
+                    }
+                    this.renderSearchResult(groupEl, match);
+                });
+                count += matches.length;
+                statusEl.setText(`Searching... ${formatMatchCount(count)} in ${searched} of ${total} chapters`);
+            });
+            if (!complete) return;
+        } catch (e) {
+            console.error('Error searching book:', e);
+            statusEl.setText('The book could not be searched');
+            return;
+        }
+        
+        if (count === 0) {
+            statusEl.setText('No matches');
+        } else if (count >= MAX_SEARCH_RESULTS) {
+            statusEl.setText(`Showing the first ${MAX_SEARCH_RESULTS} matches`);
+        } else {
+            statusEl.setText(formatMatchCount(count));
+        }
+    }
+
+    private renderSearchResult(groupEl: HTMLElement, match: SearchMatch) {
+        const resultEl = groupEl.createDiv({ cls: 'ebook-reader-search-result' });
+        resultEl.appendText(match.before);
+        resultEl.createEl('mark', { text: match.text });
+        resultEl.appendText(match.after);
+        
+        resultEl.addEventListener('click', () => {
+            this.searchResultsEl?.querySelectorAll('.is-active').forEach(el => el.removeClass('is-active'));
+            resultEl.addClass('is-active');
+            this.goToSearchMatch(match);
+        });
+    }
+
+    // Show a match and mark its exact text
+    private async goToSearchMatch(match: SearchMatch) {
+        if (!this.epubContent || !this.readingState) return;
+        
+        // Back returns to where the reader was before the first match was opened
+        if (!this.searchLeftFrom) {
+            this.searchLeftFrom = this.getCurrentHistoryEntry();
+            this.backStack.push(this.searchLeftFrom);
+            this.forwardStack = [];
+            this.updateHistoryButtons();
+        }
+        
+        await this.revealText(match.itemId, match.start, match.end);
+    }
+
+    // Show and mark the text between two offsets of a chapter's text
+    async revealText(itemId: string, start: number, end: number) {
+        if (!this.epubContent) return;
+        
+        // Work out the CFI from the chapter's source, so the page holding the text is shown even before it is rendered
+        const html = await this.epubContent.getChapter(itemId);
+        const sourceRoot = html ? importChapterHtml(html).querySelector(`.${CFI_ROOT_CLASS}`) : null;
+        const cfi = sourceRoot ?
+            createCfiFromTextOffset(this.getSpineIndex(itemId), itemId, sourceRoot, start, end - start) : null;
+        
+        await this.navigateToLocation(itemId, 0, undefined, cfi || undefined);
+        
+        this.clearSearchMatch();
+        const root = this.getCfiRoot(itemId);
+        const range = root ? rangeFromOffsets(root, start, end) : null;
+        if (!range) return;
+        
+        this.searchMatchEls = wrapRange(range, () => createSpan({ cls: 'ebook-search-match' }));
+        this.flashElements(this.searchMatchEls);
+    }
+
+    private clearSearchMatch() {
+        this.searchMatchEls.forEach(el => {
+            const parent = el.parentNode;
+            el.replaceWith(...Array.from(el.childNodes));
+            parent?.normalize();
+        });
+        this.searchMatchEls = [];
+    }
+
     private renderNavPoints(navPoints: EpubNavPoint[], parentEl: HTMLElement) {
         navPoints.forEach(navPoint => {
+            // Hidden entries from EPUB 3 nav documents are for navigation only, not display
+            if (navPoint.hidden) return;
+
             const li = parentEl.createEl('li');
             const link = li.createEl('a', {
                 text: navPoint.label,
@@ -338,6 +1021,10 @@ export class ReaderView extends ItemView {
     private findManifestItemForHref(href: string): string | null {
         if (!this.epubContent) return null;
         
+        // Prefer an exact match on the full archive path
+        const exactMatch = Object.values(this.epubContent.manifest).find(item => item.href === href);
+        if (exactMatch) return exactMatch.id;
+        
         // Loop through manifest items and find the one that matches the href
         for (const [id, item] of Object.entries(this.epubContent.manifest)) {
             if (item && typeof item === 'object' && 'href' in item && typeof item.href === 'string' && item.href.endsWith(href)) {
@@ -354,6 +1041,9 @@ export class ReaderView extends ItemView {
     }
 
     private renderFooter() {
+        // Right-to-left books show Next on the left and Previous on the right
+        this.footerEl.toggleClass('ebook-reader-footer-rtl', this.isRightToLeft());
+        
         // Create navigation controls
         const prevBtn = this.footerEl.createEl('button', {
             text: 'Previous',
@@ -372,14 +1062,26 @@ export class ReaderView extends ItemView {
                 type: 'range',
                 min: '0',
                 max: '100',
+                step: '0.1',
                 value: '0'
             }
         });
         
-        progressSlider.addEventListener('input', (event) => {
-            const target = event.target as HTMLInputElement;
-            const percent = parseInt(target.value, 10);
-            this.scrollToPercent(percent);
+        // The slider seeks through the whole book: within the chapter while dragging, to other chapters on release
+        progressSlider.addEventListener('input', () => {
+            const location = this.getSliderLocation(progressSlider);
+            if (location && location.itemId === this.readingState?.currentLocation) {
+                this.scrollToPercent(location.position);
+                if (this.isPaginated()) {
+                    this.updateLocationCfi();
+                }
+            }
+        });
+        progressSlider.addEventListener('change', () => {
+            const location = this.getSliderLocation(progressSlider);
+            if (location && location.itemId !== this.readingState?.currentLocation) {
+                this.navigateToLocation(location.itemId, location.position);
+            }
         });
         
         const progressText = progressContainer.createDiv({ 
@@ -387,6 +1089,9 @@ export class ReaderView extends ItemView {
             text: 'Page 1 of 1'
         });
         
+        // Reading time left, from the measured reading speed
+        progressContainer.createDiv({ cls: 'ebook-reader-time-left' });
+        
         // Next button
         const nextBtn = this.footerEl.createEl('button', {
             text: 'Next',
@@ -400,7 +1105,7 @@ export class ReaderView extends ItemView {
         this.updateProgressDisplay();
     }
 
-    private navigateToLocation(itemId: string, position: number, fragment?: string): void {
+    private async navigateToLocation(itemId: string, position: number, fragment?: string, cfi?: string): Promise<void> {
         if (!this.epubContent || !this.readingState) {
             console.error("Cannot navigate: epubContent or readingState is null");
             return;
@@ -419,13 +1124,18 @@ export class ReaderView extends ItemView {
         this.currentChapterIndex = this.epubContent.spine.items.indexOf(itemId);
         this.totalChapters = this.epubContent.spine.items.length;
         
+        const navigationId = ++this.navigationId;
+        this.mediaPlayer.stop();
+        this.closeFootnote();
+        
         // Get the chapter content
-        const content = this.epubContent.content[itemId];
+        const content = await this.epubContent.getChapter(itemId);
+        if (navigationId !== this.navigationId) return;
         if (!content) {
             console.error(`Content for chapter ${itemId} not found`);
             // Try to find any chapter with content
             for (const id of this.epubContent.spine.items) {
-                if (this.epubContent.content[id]) {
+                if (id !== itemId && this.epubContent.hasChapter(id)) {
                     console.log(`Found content for ${id}, using instead`);
                     return this.navigateToLocation(id, 0);
                 }
@@ -443,24 +1153,55 @@ export class ReaderView extends ItemView {
         // Update the reading state
         this.readingState.currentLocation = itemId;
         this.readingState.position = position;
+        this.readingState.cfi = cfi;
         this.saveReadingState();
         
         // Render the chapter content
         const chapterEl = this.readerEl.querySelector('.ebook-reader-chapter');
         if (chapterEl) {
+            let revealed = false;
             try {
-                // Process the HTML to make it safe and apply our styling
-                const processedHtml = this.processChapterHtml(content);
-                chapterEl.innerHTML = processedHtml;
-                
-                // Scroll to position
-                if (fragment) {
-                    const target = chapterEl.querySelector(`#${fragment}`);
-                    if (target) {
-                        target.scrollIntoView();
-                    }
+                if (this.epubContent.getLayout(itemId) === 'pre-paginated') {
+                    // Fixed-layout pages are scaled to fit the leaf instead of reflowing
+                    const rendered = await this.renderFixedLayout(itemId, chapterEl as HTMLElement, navigationId);
+                    if (!rendered) return;
                 } else {
-                    this.scrollToPercent(position);
+                    // In continuous mode the chapter is the first of a run of sections
+                    const continuous = this.plugin.settings.reading.flow === 'scrolled-continuous';
+                    
+                    // Process the HTML to make it safe and apply our styling
+                    const chapterPath = this.epubContent.manifest[itemId]?.href || '';
+                    const chapterContent = await this.processChapterHtml(
+                        content, chapterPath, continuous ? this.getSectionScope(itemId) : CHAPTER_SCOPE
+                    );
+                    if (navigationId !== this.navigationId) return;
+                    
+                    this.currentSpread = [itemId];
+                    chapterEl.toggleClass('ebook-reader-chapter-fxl', false);
+                    if (continuous) {
+                        chapterEl.empty();
+                        this.createSection(chapterEl as HTMLElement, itemId, chapterContent, false);
+                    } else {
+                        chapterEl.empty();
+                        chapterEl.appendChild(chapterContent);
+                        this.applyHighlights(chapterEl as HTMLElement, itemId);
+                    }
+                    this.layoutPages();
+                    
+                    // Scroll to position
+                    revealed = !!cfi && this.scrollToCfi(cfi);
+                    if (!revealed && (!fragment || !this.scrollToFragment(fragment))) {
+                        this.scrollToPercent(position);
+                    }
+                    
+                    if (continuous) {
+                        this.extendContinuous();
+                    }
+                }
+                
+                // Remember the exact text on screen unless the saved location was shown
+                if (!revealed) {
+                    this.updateLocationCfi();
                 }
                 
                 // Update the progress display
@@ -470,6 +1211,9 @@ export class ReaderView extends ItemView {
                 if (chapterEl instanceof HTMLElement) {
                     this.setupTextSelectionHandlers(chapterEl);
                 }
+                
+                // Narration follows the reader to the new location
+                await this.loadMediaOverlay(itemId, navigationId, fragment);
             } catch (error) {
                 console.error("Error rendering chapter:", error);
                 chapterEl.innerHTML = `<div class="ebook-reader-error">Error rendering chapter: ${error.message}</div>`;
@@ -479,68 +1223,75 @@ export class ReaderView extends ItemView {
         }
     }
 
-    private processChapterHtml(html: string): string {
-        // Create a temporary div to hold the HTML
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = html;
+    private async processChapterHtml(html: string, chapterPath: string, scope: string = CHAPTER_SCOPE): Promise<DocumentFragment> {
+        // The imported nodes go into the page as they are, never re-parsed, so the rendered chapter
+        // has the structure of the original document that CFIs and text offsets are counted in
+        const chapterContent = importChapterHtml(html);
         
-        // Fix relative URLs in images and links
+        // Scripts are kept in place but never run
+        chapterContent.querySelectorAll('script').forEach(script => script.setAttribute('type', 'text/plain'));
+        
+        // Pull out the publisher's stylesheets so they can be scoped to the chapter
+        const publisherCss = await this.extractPublisherStyles(chapterContent, chapterPath, scope);
+        
+        // Fix relative URLs in images and links
         const baseUrl = `app://obsidian/${this.book?.path || ''}`;
         
         // Process images
-        const images = tempDiv.querySelectorAll('img');
-        Array.from(images).forEach(img => {
+        const images = chapterContent.querySelectorAll('img');
+        for (const img of Array.from(images)) {
             const src = img.getAttribute('src');
-            const originalSrc = img.getAttribute('data-original-src');
+            const resourcePath = img.getAttribute('data-resource-path');
             
-            if (originalSrc && this.epubContent) {
-                // Try to find the image in resources
-                const resourceKey = this.findResourceKey(originalSrc);
-                if (resourceKey) {
-                    // Create a blob URL for the image
-                    const imageData = this.epubContent.resources[resourceKey];
-                    if (imageData) {
-                        try {
-                            // Create a blob from the binary data
-                            const blob = new Blob([imageData], { type: this.getImageMimeType(originalSrc) });
-                            const url = URL.createObjectURL(blob);
-                            img.src = url;
-                            
-                            // Store URL for cleanup
-                            this.blobUrls.push(url);
-                        } catch (e) {
-                            console.error('Error creating blob URL for image:', e);
-                        }
-                    }
-                } else if (src && !src.startsWith('http') && !src.startsWith('blob:') && !src.startsWith('data:')) {
-                    // Fallback to relative path if resource not found directly
-                    try {
-                        img.src = new URL(src, baseUrl).href;
-                    } catch (e) {
-                        console.error('Error creating URL for image:', e);
-                    }
+            if (resourcePath) {
+                // Load the image from the archive on demand
+                const url = await this.getResourceUrl(resourcePath);
+                if (url) {
+                    img.src = url;
+                    continue;
                 }
-            } else if (src && !src.startsWith('http') && !src.startsWith('blob:') && !src.startsWith('data:')) {
-                // For images without data-original-src
+            }
+            
+            if (src && !src.startsWith('http') && !src.startsWith('blob:') && !src.startsWith('data:')) {
+                // Fallback to relative path if the resource could not be loaded
                 try {
                     img.src = new URL(src, baseUrl).href;
                 } catch (e) {
                     console.error('Error creating URL for image:', e);
                 }
             }
-        });
+        }
         
-        // Process internal links - no event listeners can be added here since this is just string processing
-        const links = tempDiv.querySelectorAll('a');
+        // Process internal links - event listeners are added once the content is in the page
+        const links = chapterContent.querySelectorAll('a');
         Array.from(links).forEach(link => {
             const href = link.getAttribute('href');
+            if (href && isNoteref(link) && !/^[a-z]+:/i.test(href)) {
+                // Footnote reference - remember the full archive path of the note for the popover
+                const [notePath, noteId] = href.split('#');
+                try {
+                    const path = notePath ? resolveRelativePath(decodeURIComponent(notePath), chapterPath) : chapterPath;
+                    link.setAttribute('data-noteref', `${path}#${noteId || ''}`);
+                } catch (e) {
+                    console.error(`Error resolving noteref ${href}:`, e);
+                }
+            }
+            
             if (href) {
                 if (href.startsWith('#')) {
                     // Internal link to the same document - add a data attribute for later processing
                     link.setAttribute('data-internal-link', 'true');
-                } else if (!href.startsWith('http')) {
+                    link.setAttribute('data-target-path', `${chapterPath}${href}`);
+                } else if (!/^[a-z][a-z0-9+.-]*:/i.test(href)) {
                     // Internal link to another part of the book - add a data attribute
                     link.setAttribute('data-ebook-link', 'true');
+                    const [targetPath, targetId] = href.split('#');
+                    try {
+                        const path = resolveRelativePath(decodeURIComponent(targetPath), chapterPath);
+                        link.setAttribute('data-target-path', targetId ? `${path}#${targetId}` : path);
+                    } catch (e) {
+                        console.error(`Error resolving link ${href}:`, e);
+                    }
                 } else {
                     // External link - open in browser
                     link.setAttribute('target', '_blank');
@@ -549,66 +1300,506 @@ export class ReaderView extends ItemView {
             }
         });
         
-        // Apply highlights if any
-        if (this.readingState && this.readingState.highlights.length > 0) {
-            this.applyHighlights(tempDiv);
+        // Add the scoped publisher styles in front of the chapter body
+        if (publisherCss) {
+            const styleEl = document.createElement('style');
+            styleEl.className = 'ebook-publisher-styles';
+            styleEl.textContent = publisherCss;
+            chapterContent.prepend(styleEl);
+        }
+        
+        return chapterContent;
+    }
+
+    private async renderFixedLayout(itemId: string, chapterEl: HTMLElement, navigationId: number): Promise<boolean> {
+        if (!this.epubContent) return false;
+        
+        const spread = getSpread(this.epubContent, itemId, shouldUseSpreads(this.epubContent, this.getContentArea()));
+        
+        // Each page gets its own scope so the stylesheets of the two pages of a spread cannot clash
+        const pages: { id: string; content: DocumentFragment; viewport: PageViewport }[] = [];
+        for (const id of spread) {
+            const content = await this.epubContent.getChapter(id);
+            if (!content) continue;
+            
+            const chapterPath = this.epubContent.manifest[id]?.href || '';
+            const pageContent = await this.processChapterHtml(content, chapterPath, `.ebook-fxl-page-${pages.length}`);
+            pages.push({ id, content: pageContent, viewport: parseViewport(content) || DEFAULT_VIEWPORT });
+        }
+        if (navigationId !== this.navigationId || pages.length === 0) return false;
+        
+        chapterEl.empty();
+        chapterEl.toggleClass('ebook-reader-chapter-fxl', true);
+        this.layoutPages();
+        const spreadEl = chapterEl.createDiv({ cls: 'ebook-fxl-spread' });
+        spreadEl.toggleClass('ebook-fxl-spread-rtl', this.isRightToLeft());
+        
+        pages.forEach((page, index) => {
+            const frameEl = spreadEl.createDiv({ cls: 'ebook-fxl-frame' });
+            const pageEl = frameEl.createDiv({
+                cls: `ebook-fxl-page ebook-fxl-page-${index}`,
+                attr: {
+                    'data-item-id': page.id,
+                    'data-width': page.viewport.width.toString(),
+                    'data-height': page.viewport.height.toString()
+                }
+            });
+            pageEl.style.width = `${page.viewport.width}px`;
+            pageEl.style.height = `${page.viewport.height}px`;
+            pageEl.appendChild(page.content);
+            this.applyHighlights(pageEl, page.id);
+        });
+        
+        this.currentSpread = pages.map(page => page.id);
+        this.fitFixedLayout();
+        return true;
+    }
+
+    // Scale the pages of the current fixed-layout spread to fit the leaf
+    private fitFixedLayout() {
+        const pageEls = Array.from(this.readerEl?.querySelectorAll('.ebook-fxl-page') || []) as HTMLElement[];
+        if (pageEls.length === 0) return;
+        
+        const viewports = pageEls.map(pageEl => ({
+            width: Number(pageEl.getAttribute('data-width')) || DEFAULT_VIEWPORT.width,
+            height: Number(pageEl.getAttribute('data-height')) || DEFAULT_VIEWPORT.height
+        }));
+        
+        const scale = fitScale(viewports, this.getContentArea());
+        if (!(scale > 0)) return;
+        
+        pageEls.forEach((pageEl, index) => {
+            pageEl.style.transform = `scale(${scale})`;
+            const frameEl = pageEl.parentElement;
+            if (frameEl) {
+                frameEl.style.width = `${viewports[index].width * scale}px`;
+                frameEl.style.height = `${viewports[index].height * scale}px`;
+            }
+        });
+    }
+
+    // Area available for pages inside the content padding
+    private getContentArea(): PageViewport {
+        if (!this.readerEl) return { width: 0, height: 0 };
+        
+        const style = getComputedStyle(this.readerEl);
+        return {
+            width: this.readerEl.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight),
+            height: this.readerEl.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom)
+        };
+    }
+
+    onResize() {
+        this.fitFixedLayout();
+        this.refreshLayout();
+    }
+
+    private getChapterEl(): HTMLElement | null {
+        return this.readerEl?.querySelector('.ebook-reader-chapter') || null;
+    }
+
+    // Whether adjacent chapters are loaded above and below the chapter on screen as the reader scrolls
+    private isContinuous(): boolean {
+        const chapterEl = this.getChapterEl();
+        return this.plugin.settings.reading.flow === 'scrolled-continuous' && !!chapterEl && !chapterEl.hasClass('ebook-reader-chapter-fxl');
+    }
+
+    // Publisher styles of each section only apply to that section
+    private getSectionScope(itemId: string): string {
+        return `.ebook-reader-section[data-item-id="${CSS.escape(itemId)}"]`;
+    }
+
+    // The element holding the current chapter: its section in continuous mode, otherwise the whole chapter
+    private getCurrentSectionEl(): HTMLElement | null {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl || !this.readingState) return chapterEl;
+        
+        return chapterEl.querySelector(this.getSectionScope(this.readingState.currentLocation)) || chapterEl;
+    }
+
+    private createSection(chapterEl: HTMLElement, itemId: string, content: DocumentFragment, prepend: boolean): HTMLElement {
+        const sectionEl = createDiv({ cls: 'ebook-reader-section', attr: { 'data-item-id': itemId } });
+        sectionEl.appendChild(content);
+        this.applyHighlights(sectionEl, itemId);
+        
+        if (prepend) {
+            chapterEl.prepend(sectionEl);
+        } else {
+            chapterEl.append(sectionEl);
         }
+        return sectionEl;
+    }
+
+    // Load the chapters before and after the ones on screen when the reader scrolls near either end,
+    // and drop chapters that have scrolled far out of view
+    private async extendContinuous() {
+        if (!this.epubContent || !this.isContinuous() || this.extendingSections) return;
         
-        return tempDiv.innerHTML;
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl) return;
+        
+        this.extendingSections = true;
+        const navigationId = this.navigationId;
+        try {
+            // Within one screen of either end counts as near
+            const threshold = this.readerEl.clientHeight;
+            
+            while (this.readerEl.scrollTop + this.readerEl.clientHeight > this.readerEl.scrollHeight - threshold) {
+                const lastId = chapterEl.lastElementChild?.getAttribute('data-item-id');
+                const sectionEl = lastId ? await this.loadAdjacentSection(chapterEl, lastId, 1, navigationId) : null;
+                if (!sectionEl) break;
+            }
+            
+            while (this.readerEl.scrollTop < threshold) {
+                const firstEl = chapterEl.firstElementChild;
+                const firstId = firstEl?.getAttribute('data-item-id');
+                if (!firstEl || !firstId) break;
+                
+                // Keep the text the reader is looking at in place
+                const top = firstEl.getBoundingClientRect().top;
+                const sectionEl = await this.loadAdjacentSection(chapterEl, firstId, -1, navigationId);
+                if (!sectionEl) break;
+                this.readerEl.scrollTop += firstEl.getBoundingClientRect().top - top;
+            }
+            
+            if (navigationId === this.navigationId) {
+                this.unloadDistantSections(chapterEl);
+            }
+        } finally {
+            this.extendingSections = false;
+        }
     }
 
-    private findResourceKey(originalSrc: string): string | null {
+    // Add the next or previous reflowable chapter as a section, if there is one
+    private async loadAdjacentSection(chapterEl: HTMLElement, fromId: string, step: number, navigationId: number): Promise<HTMLElement | null> {
         if (!this.epubContent) return null;
         
-        // Try different variations of the path
-        const variations = [
-            originalSrc,
-            originalSrc.split('/').pop() || '',  // Just the filename
-            originalSrc.replace(/\.\.\//g, ''),  // Remove ../ references
-            decodeURIComponent(originalSrc)      // URL-decoded
-        ];
+        const itemId = await this.findLinearChapter(this.epubContent.spine.items.indexOf(fromId), step);
+        if (!itemId || navigationId !== this.navigationId || this.epubContent.getLayout(itemId) === 'pre-paginated') return null;
+        
+        const content = await this.epubContent.getChapter(itemId);
+        if (!content || navigationId !== this.navigationId) return null;
+        
+        const sectionContent = await this.processChapterHtml(content, this.epubContent.manifest[itemId]?.href || '', this.getSectionScope(itemId));
+        if (navigationId !== this.navigationId) return null;
         
-        for (const variation of variations) {
-            if (this.epubContent.resources[variation]) {
-                return variation;
+        return this.createSection(chapterEl, itemId, sectionContent, step < 0);
+    }
+
+    // Keep only the chapter in view and its neighbours in the page
+    private unloadDistantSections(chapterEl: HTMLElement) {
+        const sections = Array.from(chapterEl.querySelectorAll('.ebook-reader-section')) as HTMLElement[];
+        const currentEl = this.getCurrentSectionEl() as HTMLElement;
+        const currentIndex = sections.indexOf(currentEl);
+        if (currentIndex === -1) return;
+        
+        // Keep the text the reader is looking at in place when sections above it go
+        const top = currentEl.getBoundingClientRect().top;
+        sections.forEach((sectionEl, index) => {
+            if (index < currentIndex - 1 || index > currentIndex + 1) {
+                sectionEl.remove();
             }
+        });
+        this.readerEl.scrollTop += currentEl.getBoundingClientRect().top - top;
+    }
+
+    // Make the section under the upper third of the screen the current location
+    private updateCurrentSection() {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl || !this.readingState || !this.epubContent) return;
+        
+        const readerRect = this.readerEl.getBoundingClientRect();
+        const line = readerRect.top + readerRect.height / 3;
+        const sections = Array.from(chapterEl.querySelectorAll('.ebook-reader-section')) as HTMLElement[];
+        const sectionEl = sections.find(section => section.getBoundingClientRect().bottom > line) || sections[sections.length - 1];
+        
+        const itemId = sectionEl?.getAttribute('data-item-id');
+        if (!itemId || itemId === this.readingState.currentLocation) return;
+        
+        this.readingState.currentLocation = itemId;
+        this.currentChapterIndex = this.epubContent.spine.items.indexOf(itemId);
+        this.currentSpread = [itemId];
+        
+        // Narration that is playing carries on in its own chapter
+        if (!this.readAloud) {
+            this.loadMediaOverlay(itemId, this.navigationId);
         }
+    }
+
+    // Whether the chapter on screen is shown as pages rather than scrolled
+    private isPaginated(): boolean {
+        const chapterEl = this.getChapterEl();
+        return this.plugin.settings.reading.flow === 'paginated' && !!chapterEl && !chapterEl.hasClass('ebook-reader-chapter-fxl');
+    }
+
+    // Size the chapter columns to the leaf in paginated mode, or clear them in scroll mode
+    private layoutPages() {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl) return;
+        
+        const paginated = this.isPaginated();
+        this.readerEl.toggleClass('ebook-reader-paginated', paginated);
+        this.readerEl.toggleClass('ebook-reader-continuous', this.isContinuous());
+        chapterEl.toggleClass('ebook-reader-chapter-paginated', paginated);
+        chapterEl.toggleClass('ebook-reader-page-animated', false);
+        
+        if (!paginated) {
+            ['width', 'height', 'column-width', 'column-gap', 'transform'].forEach(property => chapterEl.style.removeProperty(property));
+            this.currentPage = 0;
+            return;
+        }
+        
+        // Each column fills the content area; the gap covers the padding so neighbouring pages stay hidden
+        const area = this.getContentArea();
+        const gap = this.readerEl.clientWidth - area.width;
+        chapterEl.style.width = `${area.width}px`;
+        chapterEl.style.height = `${area.height}px`;
+        chapterEl.style.columnWidth = `${area.width}px`;
+        chapterEl.style.columnGap = `${gap}px`;
+        this.pageStride = area.width + gap;
+        this.readerEl.scrollTop = 0;
+    }
+
+    // Re-apply the page layout after the leaf or the reading settings changed, keeping the position
+    private refreshLayout() {
+        if (!this.readingState || !this.getChapterEl()) return;
+        
+        const position = this.readingState.position;
+        const cfi = this.readingState.cfi;
+        this.layoutPages();
+        if (!cfi || !this.scrollToCfi(cfi)) {
+            this.scrollToPercent(position);
+        }
+    }
+
+    private getPageCount(): number {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl || this.pageStride <= 0) return 1;
+        return Math.max(1, Math.round((chapterEl.scrollWidth + this.pageStride - chapterEl.clientWidth) / this.pageStride));
+    }
+
+    // Show a page of the chapter in paginated mode
+    private goToPage(page: number, animate: boolean = false) {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl) return;
+        
+        const pageCount = this.getPageCount();
+        this.currentPage = Math.max(0, Math.min(page, pageCount - 1));
         
-        // If not found directly, try to find a partial match
-        for (const key of Object.keys(this.epubContent.resources)) {
-            if (key.endsWith(originalSrc.split('/').pop() || '')) {
-                return key;
+        chapterEl.toggleClass('ebook-reader-page-animated', animate && this.plugin.settings.reading.pageTurnAnimation);
+        chapterEl.style.transform = `translateX(${-this.currentPage * this.pageStride}px)`;
+        
+        if (this.readingState) {
+            this.readingState.position = pageCount > 1 ? (this.currentPage / (pageCount - 1)) * 100 : 0;
+            this.saveReadingState();
+        }
+        this.updateProgressDisplay();
+    }
+
+    // Turn a page forward or back, moving on to the next or previous chapter at its edges
+    private async turnPage(step: number) {
+        if (!this.isPaginated()) {
+            if (step > 0) {
+                await this.navigateToNextChapter();
+            } else {
+                await this.navigateToPreviousChapter();
             }
+            return;
         }
         
-        return null;
+        const page = this.currentPage + step;
+        if (page >= this.getPageCount()) {
+            await this.navigateToNextChapter();
+        } else if (page < 0) {
+            // Arrive on the last page of the previous chapter
+            await this.navigateToPreviousChapter(100);
+        } else {
+            this.goToPage(page, true);
+            this.updateLocationCfi();
+        }
+    }
+
+    private async getResourceUrl(resourcePath: string): Promise<string | null> {
+        const existingUrl = this.resourceUrls.get(resourcePath);
+        if (existingUrl) return existingUrl;
+        
+        if (!this.epubContent) return null;
+        
+        const data = await this.epubContent.getResource(resourcePath);
+        if (!data) return null;
+        
+        try {
+            // Create a blob from the binary data
+            const blob = new Blob([data], { type: this.epubContent.getMediaType(resourcePath) });
+            const url = URL.createObjectURL(blob);
+            
+            // Store URL for reuse and cleanup
+            this.resourceUrls.set(resourcePath, url);
+            return url;
+        } catch (e) {
+            console.error('Error creating blob URL for resource:', e);
+            return null;
+        }
+    }
+
+    private releaseResources() {
+        // Revoke all blob URLs to prevent memory leaks
+        this.resourceUrls.forEach(url => {
+            URL.revokeObjectURL(url);
+        });
+        this.resourceUrls.clear();
+        this.stylesheetCache.clear();
+    }
+
+    private async extractPublisherStyles(container: ParentNode, chapterPath: string, scope: string): Promise<string> {
+        const styleElements = Array.from(container.querySelectorAll('link[rel="stylesheet"], style'));
+        
+        // Stylesheets from <head> are dropped. Those in the body stay where they are, switched off,
+        // since they are part of the structure CFIs and text offsets are counted in.
+        styleElements.forEach(el => {
+            if (!el.closest(`.${CFI_ROOT_CLASS}`)) {
+                el.remove();
+            } else if (el.tagName.toLowerCase() === 'link') {
+                el.removeAttribute('href');
+            } else {
+                el.setAttribute('media', 'not all');
+            }
+        });
+        
+        // With "my styles only" the book's stylesheets are dropped entirely
+        if (!this.plugin.settings.reading.publisherStyles) return '';
+        
+        const scopedStyles: string[] = [];
+        for (const el of styleElements) {
+            if (el.tagName.toLowerCase() === 'link') {
+                const resourcePath = el.getAttribute('data-resource-path');
+                if (resourcePath) {
+                    scopedStyles.push(await this.loadStylesheet(resourcePath, scope));
+                }
+            } else {
+                // Inline styles resolve their urls relative to the chapter document
+                const css = await this.inlineStylesheet(el.textContent || '', chapterPath, 0);
+                scopedStyles.push(scopeStylesheet(css, scope));
+            }
+        }
+        
+        return scopedStyles.filter(css => css.length > 0).join('\n');
+    }
+
+    private async loadStylesheet(path: string, scope: string): Promise<string> {
+        const cacheKey = `${scope} ${path}`;
+        const cached = this.stylesheetCache.get(cacheKey);
+        if (cached !== undefined) return cached;
+        
+        let scoped = '';
+        try {
+            const css = await this.epubContent?.getText(path);
+            if (css) {
+                scoped = scopeStylesheet(await this.inlineStylesheet(css, path, 0), scope);
+            }
+        } catch (e) {
+            console.error(`Error loading stylesheet ${path}:`, e);
+        }
+        
+        this.stylesheetCache.set(cacheKey, scoped);
+        return scoped;
+    }
+
+    private async inlineStylesheet(css: string, cssPath: string, depth: number): Promise<string> {
+        // Inline @import rules, guarding against import cycles
+        let imported = '';
+        if (depth < 3) {
+            for (const href of findCssImports(css)) {
+                const importPath = resolveRelativePath(href, cssPath);
+                const importedCss = await this.epubContent?.getText(importPath);
+                if (importedCss) {
+                    imported += await this.inlineStylesheet(importedCss, importPath, depth + 1) + '\n';
+                }
+            }
+        }
+        
+        // Point url() references, such as @font-face sources, at blob URLs of the book's resources
+        const urlMap = new Map<string, string>();
+        for (const url of findCssUrls(css)) {
+            let resourcePath: string;
+            try {
+                resourcePath = resolveRelativePath(decodeURIComponent(url.split('#')[0]), cssPath);
+            } catch (e) {
+                continue;
+            }
+            const blobUrl = await this.getResourceUrl(resourcePath);
+            if (blobUrl) {
+                urlMap.set(url, blobUrl);
+            }
+        }
+        
+        return imported + rewriteCssUrls(css, urlMap);
+    }
+
+    // Scroll the element with the given ID into view, if the chapter has one
+    private scrollToFragment(fragment: string): boolean {
+        const target = this.getCurrentSectionEl()?.querySelector(`[id="${CSS.escape(fragment)}"]`);
+        if (!target) return false;
+        
+        this.revealElement(target);
+        return true;
+    }
+
+    // Bring an element of the chapter into view, turning to its page in paginated mode
+    private revealElement(el: Element, smooth: boolean = false) {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl || !this.isPaginated()) {
+            el.scrollIntoView(smooth ? { block: 'nearest', behavior: 'smooth' } : undefined);
+            return;
+        }
+        
+        // The offset between the two is the same whichever page is shown
+        const offset = el.getBoundingClientRect().left - chapterEl.getBoundingClientRect().left;
+        const page = Math.floor(offset / this.pageStride);
+        if (page !== this.currentPage) {
+            this.goToPage(page, smooth);
+        }
     }
 
-    private getImageMimeType(path: string): string {
-        const extension = path.split('.').pop()?.toLowerCase();
-        switch (extension) {
-            case 'jpg':
-            case 'jpeg':
-                return 'image/jpeg';
-            case 'png':
-                return 'image/png';
-            case 'gif':
-                return 'image/gif';
-            case 'svg':
-                return 'image/svg+xml';
-            case 'webp':
-                return 'image/webp';
-            default:
-                return 'image/jpeg'; // Default
+    // How far the current chapter is read, as a percentage
+    private getScrollPercent(): number {
+        if (!this.readerEl) return 0;
+        
+        if (this.isPaginated()) {
+            const pageCount = this.getPageCount();
+            return pageCount > 1 ? (this.currentPage / (pageCount - 1)) * 100 : 0;
         }
+        
+        // In continuous mode the position is within the chapter in view
+        const sectionEl = this.getCurrentSectionEl();
+        if (this.isContinuous() && sectionEl) {
+            const scrolled = this.readerEl.getBoundingClientRect().top - sectionEl.getBoundingClientRect().top;
+            const range = sectionEl.offsetHeight - this.readerEl.clientHeight;
+            return range > 0 ? Math.max(0, Math.min(100, (scrolled / range) * 100)) : 0;
+        }
+        
+        // The content area, not the chapter, is the scrolling element
+        const scrollHeight = this.readerEl.scrollHeight - this.readerEl.clientHeight;
+        return scrollHeight > 0 ? (this.readerEl.scrollTop / scrollHeight) * 100 : 0;
     }
 
     private scrollToPercent(percent: number) {
-        const chapterEl = this.readerEl.querySelector('.ebook-reader-chapter');
-        if (chapterEl) {
-            const scrollHeight = chapterEl.scrollHeight - chapterEl.clientHeight;
-            const scrollTop = (scrollHeight * percent) / 100;
-            chapterEl.scrollTop = scrollTop;
+        if (this.isPaginated()) {
+            this.goToPage(Math.round((percent / 100) * (this.getPageCount() - 1)));
+            return;
+        }
+        
+        if (this.readerEl) {
+            const scrollHeight = this.readerEl.scrollHeight - this.readerEl.clientHeight;
+            let scrollTop = (scrollHeight * percent) / 100;
+            
+            const sectionEl = this.getCurrentSectionEl();
+            if (this.isContinuous() && sectionEl) {
+                const sectionTop = this.readerEl.scrollTop + sectionEl.getBoundingClientRect().top - this.readerEl.getBoundingClientRect().top;
+                const range = Math.max(0, sectionEl.offsetHeight - this.readerEl.clientHeight);
+                scrollTop = sectionTop + (range * percent) / 100;
+            }
+            this.readerEl.scrollTop = scrollTop;
             
             // Update reading state
             if (this.readingState) {
@@ -618,94 +1809,654 @@ export class ReaderView extends ItemView {
         }
     }
 
-    private navigateToPreviousChapter() {
-        if (!this.epubContent || this.currentChapterIndex <= 0) return;
+    // Bring the location a CFI points to into view; false when it is not in the chapter on screen
+    private scrollToCfi(cfi: string): boolean {
+        const itemId = this.getCfiItemId(cfi);
+        const root = itemId ? this.getCfiRoot(itemId) : null;
+        const range = root ? resolveCfi(cfi, root) : null;
+        if (!range || !this.readingState) return false;
+        
+        const rect = range.getClientRects()[0];
+        const chapterEl = this.getChapterEl();
+        if (!rect || !chapterEl) {
+            // Collapsed ranges at the start of an element have no box of their own
+            const container = range.startContainer;
+            const el = container instanceof Element ? container : container.parentElement;
+            if (!el) return false;
+            this.revealElement(el);
+        } else if (this.isPaginated()) {
+            const page = Math.floor((rect.left - chapterEl.getBoundingClientRect().left) / this.pageStride);
+            this.goToPage(page);
+        } else {
+            this.readerEl.scrollTop += rect.top - this.getVisibleTop();
+        }
+        
+        this.readingState.position = this.getScrollPercent();
+        this.readingState.cfi = cfi;
+        this.saveReadingState();
+        return true;
+    }
+
+    // Top edge of the text area of the content, below its padding
+    private getVisibleTop(): number {
+        return this.readerEl.getBoundingClientRect().top + parseFloat(getComputedStyle(this.readerEl).paddingTop);
+    }
+
+    // Save the exact location of the text on screen
+    private updateLocationCfi() {
+        if (!this.readingState) return;
+        this.readingState.cfi = this.getVisibleCfi() || undefined;
+    }
+
+    // CFI of the first text on screen in the current chapter
+    private getVisibleCfi(): string | null {
+        if (!this.epubContent || !this.readingState) return null;
+        
+        const itemId = this.readingState.currentLocation;
+        const root = this.getCfiRoot(itemId);
+        if (!root) return null;
         
-        const prevChapterId = this.epubContent.spine.items[this.currentChapterIndex - 1];
-        this.navigateToLocation(prevChapterId, 0);
+        const point = this.findFirstVisiblePoint(root) || { node: root, offset: 0 };
+        return createCfi(this.epubContent.spine.items.indexOf(itemId), itemId, root, point);
     }
 
-    private navigateToNextChapter() {
-        if (!this.epubContent || this.currentChapterIndex >= this.totalChapters - 1) return;
+    private findFirstVisiblePoint(root: Element): DomPoint | null {
+        // Text before the screen ends above it when scrolling, and to its left in paginated mode
+        const paginated = this.isPaginated();
+        const left = this.readerEl.getBoundingClientRect().left;
+        const top = this.getVisibleTop();
+        const isBefore = (rect: DOMRect) => paginated ? rect.right <= left : rect.bottom <= top + 1;
+        
+        const range = document.createRange();
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+        for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+            if (!node.data.trim()) continue;
+            
+            range.selectNodeContents(node);
+            const rects = range.getClientRects();
+            if (rects.length === 0 || isBefore(rects[rects.length - 1])) continue;
+            
+            // Find the first character on screen within the node
+            let low = 0;
+            let high = node.data.length - 1;
+            while (low < high) {
+                const mid = Math.floor((low + high) / 2);
+                range.setStart(node, mid);
+                range.setEnd(node, mid + 1);
+                if (isBefore(range.getBoundingClientRect())) {
+                    low = mid + 1;
+                } else {
+                    high = mid;
+                }
+            }
+            return { node, offset: low };
+        }
+        return null;
+    }
+
+    // The rendered body of a chapter on screen, which its CFIs are resolved against
+    private getCfiRoot(itemId: string): HTMLElement | null {
+        const chapterEl = this.getChapterEl();
+        if (!chapterEl) return null;
+        
+        let containerEl: Element | null = chapterEl;
+        if (this.isContinuous()) {
+            containerEl = chapterEl.querySelector(this.getSectionScope(itemId));
+        } else if (chapterEl.hasClass('ebook-reader-chapter-fxl')) {
+            containerEl = chapterEl.querySelector(`.ebook-fxl-page[data-item-id="${CSS.escape(itemId)}"]`);
+        } else if (itemId !== this.readingState?.currentLocation) {
+            return null;
+        }
+        return containerEl?.querySelector(`.${CFI_ROOT_CLASS}`) || null;
+    }
+
+    // The spine item a CFI points into
+    private getCfiItemId(cfi: string): string | null {
+        const spineItem = getCfiSpineItem(cfi);
+        if (!spineItem || !this.epubContent) return null;
+        
+        const items = this.epubContent.spine.items;
+        if (spineItem.itemId && items.includes(spineItem.itemId)) return spineItem.itemId;
+        return items[spineItem.index] || null;
+    }
+
+    // The chapter and CFI of a selection, as a range or just its start
+    private getRangeLocation(range: Range, collapse: boolean): { itemId: string; cfi: string; root: Element } | null {
+        if (!this.epubContent || !this.readingState) return null;
+        
+        const container = range.startContainer;
+        const root = (container instanceof Element ? container : container.parentElement)?.closest(`.${CFI_ROOT_CLASS}`);
+        if (!root) return null;
         
-        const nextChapterId = this.epubContent.spine.items[this.currentChapterIndex + 1];
-        this.navigateToLocation(nextChapterId, 0);
+        // In continuous mode and spreads the selection need not be in the current chapter
+        const itemId = root.closest('[data-item-id]')?.getAttribute('data-item-id') || this.readingState.currentLocation;
+        const start = { node: range.startContainer, offset: range.startOffset };
+        const end = collapse ? undefined : { node: range.endContainer, offset: range.endOffset };
+        
+        const cfi = createCfi(this.epubContent.spine.items.indexOf(itemId), itemId, root, start, end);
+        return cfi ? { itemId, cfi, root } : null;
+    }
+
+    private handleContentClick(evt: MouseEvent) {
+        const target = evt.target as HTMLElement;
+        
+        // Clicking anywhere outside an open footnote closes it
+        const closedFootnote = !!this.footnotePopoverEl && !this.footnotePopoverEl.contains(target);
+        if (closedFootnote) {
+            this.closeFootnote();
+        }
+        
+        // Links in the book, or in a footnote shown from it, such as a note referring to another note
+        const link = target?.closest('a[data-noteref], a[data-target-path]');
+        const inFootnote = link instanceof HTMLElement && !!this.footnotePopoverEl?.contains(link);
+        if (!(link instanceof HTMLElement) || !(inFootnote || this.readerEl.contains(link))) {
+            if (!closedFootnote) {
+                this.handlePageClick(evt);
+            }
+            return;
+        }
+        
+        evt.preventDefault();
+        if (link.hasAttribute('data-noteref')) {
+            // The new note replaces the open one once it has loaded
+            this.showFootnote(link);
+        } else {
+            this.closeFootnote();
+            this.followLink(link);
+        }
+    }
+
+    // In paginated mode, clicks on the outer thirds of the page turn it
+    private handlePageClick(evt: MouseEvent) {
+        const target = evt.target as HTMLElement;
+        if (!this.isPaginated() || !this.readerEl.contains(target) || target.closest('a, button, input')) return;
+        
+        // Leave clicks that end a text selection alone
+        const selection = window.getSelection();
+        if (selection && !selection.isCollapsed) return;
+        
+        const rect = this.readerEl.getBoundingClientRect();
+        const x = (evt.clientX - rect.left) / rect.width;
+        if (x > 1 / 3 && x < 2 / 3) return;
+        
+        const forward = (x >= 2 / 3) !== this.isRightToLeft();
+        this.turnPage(forward ? 1 : -1);
+    }
+
+    // Follow a link to another place in the book, remembering where it was followed from
+    private followLink(link: HTMLElement) {
+        if (!this.readingState) return;
+        
+        const [path, fragment] = (link.getAttribute('data-target-path') || '').split('#');
+        const itemId = this.findManifestItemForHref(path);
+        if (!itemId || !this.epubContent?.hasChapter(itemId)) {
+            new Notice('The link target could not be found in this book');
+            return;
+        }
+        
+        this.backStack.push(this.getCurrentHistoryEntry());
+        this.forwardStack = [];
+        this.updateHistoryButtons();
+        
+        // Stay on the rendered chapter when the target is in the same document
+        if (itemId === this.readingState.currentLocation && fragment && this.scrollToFragment(fragment)) {
+            return;
+        }
+        this.navigateToLocation(itemId, 0, fragment);
+    }
+
+    canGoBack(): boolean {
+        return this.backStack.length > 0;
+    }
+
+    canGoForward(): boolean {
+        return this.forwardStack.length > 0;
+    }
+
+    // Return to the place the last link was followed from
+    goBack() {
+        const entry = this.backStack.pop();
+        if (!entry) return;
+        
+        this.forwardStack.push(this.getCurrentHistoryEntry());
+        this.updateHistoryButtons();
+        this.navigateToLocation(entry.location, entry.position, undefined, entry.cfi);
+    }
+
+    goForward() {
+        const entry = this.forwardStack.pop();
+        if (!entry) return;
+        
+        this.backStack.push(this.getCurrentHistoryEntry());
+        this.updateHistoryButtons();
+        this.navigateToLocation(entry.location, entry.position, undefined, entry.cfi);
+    }
+
+    private getCurrentHistoryEntry(): HistoryEntry {
+        return {
+            location: this.readingState?.currentLocation || '',
+            position: this.getScrollPercent(),
+            cfi: this.getVisibleCfi() || undefined
+        };
+    }
+
+    private updateHistoryButtons() {
+        if (this.backBtn) this.backBtn.disabled = !this.canGoBack();
+        if (this.forwardBtn) this.forwardBtn.disabled = !this.canGoForward();
+    }
+
+    // Show the note a noteref link points to in a popover next to the link
+    private async showFootnote(link: HTMLElement) {
+        if (!this.epubContent) return;
+        
+        const [path, noteId] = (link.getAttribute('data-noteref') || '').split('#');
+        const item = Object.values(this.epubContent.manifest).find(item => item.href === path);
+        if (!item || !noteId) return;
+        
+        // Measured now, as the link may be in the footnote this one replaces
+        const linkRect = link.getBoundingClientRect();
+        const navigationId = this.navigationId;
+        const content = await this.epubContent.getChapter(item.id);
+        if (navigationId !== this.navigationId || !content) return;
+        
+        const noteEl = findNoteElement(parseXml(content), noteId);
+        if (!noteEl) {
+            // Not a recognizable note, so go to the link target instead
+            this.navigateToLocation(item.id, 0, noteId);
+            return;
+        }
+        
+        const noteContent = await this.processChapterHtml(new XMLSerializer().serializeToString(noteEl), path);
+        if (navigationId !== this.navigationId) return;
+        
+        this.closeFootnote();
+        const popoverEl = this.containerDiv.createDiv({ cls: 'ebook-footnote-popover' });
+        const bodyEl = popoverEl.createDiv({ cls: 'ebook-footnote-body ebook-reader-chapter' });
+        bodyEl.appendChild(noteContent);
+        
+        // Backlinks only lead to the reference the reader just clicked
+        bodyEl.querySelectorAll('a').forEach(a => {
+            if (getEpubTypes(a).includes('backlink') || a.getAttribute('role') === 'doc-backlink') {
+                a.remove();
+            }
+        });
+        
+        this.footnotePopoverEl = popoverEl;
+        this.positionFootnote(popoverEl, linkRect);
+    }
+
+    // Place the popover below the link, or above it when there is no room below
+    private positionFootnote(popoverEl: HTMLElement, linkRect: DOMRect) {
+        const containerRect = this.containerDiv.getBoundingClientRect();
+        const popoverRect = popoverEl.getBoundingClientRect();
+        
+        const left = Math.max(8, Math.min(
+            linkRect.left - containerRect.left - popoverRect.width / 2,
+            containerRect.width - popoverRect.width - 8
+        ));
+        let top = linkRect.bottom - containerRect.top + 4;
+        if (top + popoverRect.height > containerRect.height) {
+            top = Math.max(8, linkRect.top - containerRect.top - popoverRect.height - 4);
+        }
+        
+        popoverEl.style.left = `${left}px`;
+        popoverEl.style.top = `${top}px`;
+    }
+
+    private closeFootnote() {
+        this.footnotePopoverEl?.remove();
+        this.footnotePopoverEl = null;
+    }
+
+    private async navigateToPreviousChapter(position: number = 0) {
+        // Go back from the first page of a fixed-layout spread
+        const firstShown = this.currentSpread[0];
+        const fromIndex = firstShown && this.epubContent ? 
+            Math.min(this.currentChapterIndex, this.epubContent.spine.items.indexOf(firstShown)) : 
+            this.currentChapterIndex;
+        
+        const prevChapterId = await this.findLinearChapter(fromIndex, -1);
+        if (prevChapterId) {
+            this.navigateToLocation(prevChapterId, position);
+        }
+    }
+
+    private async navigateToNextChapter() {
+        // Continue after the last page of a fixed-layout spread
+        const lastShown = this.currentSpread[this.currentSpread.length - 1];
+        const fromIndex = lastShown && this.epubContent ? 
+            Math.max(this.currentChapterIndex, this.epubContent.spine.items.indexOf(lastShown)) : 
+            this.currentChapterIndex;
+        
+        const nextChapterId = await this.findLinearChapter(fromIndex, 1);
+        if (nextChapterId) {
+            this.navigateToLocation(nextChapterId, 0);
+        }
+    }
+
+    // Load the media overlay of the chapter on screen, continuing read-along playback if it was active
+    private async loadMediaOverlay(itemId: string, navigationId: number, fragment?: string) {
+        const clips = this.epubContent ? await this.epubContent.getMediaOverlay(itemId) : [];
+        if (navigationId !== this.navigationId) return;
+        
+        this.mediaPlayer.load(clips);
+        if (this.readAloud) {
+            if (clips.length > 0) {
+                this.mediaPlayer.play(fragment);
+            } else {
+                this.readAloud = false;
+            }
+        }
+        this.updateReadAloudButton();
+    }
+
+    private toggleReadAloud() {
+        this.readAloud = !this.readAloud;
+        if (this.readAloud) {
+            this.mediaPlayer.play();
+        } else {
+            this.mediaPlayer.pause();
+        }
+        this.updateReadAloudButton();
+    }
+
+    private updateReadAloudButton() {
+        if (!this.readAloudBtn) return;
+        this.readAloudBtn.toggle(this.mediaPlayer.hasClips());
+        this.readAloudBtn.setText(this.readAloud ? 'Pause' : 'Read Aloud');
+    }
+
+    // Mark the element being narrated and keep it in view
+    private highlightMediaFragment(clip: MediaOverlayClip | null) {
+        const activeClasses = ['ebook-media-active'];
+        if (this.epubContent?.mediaActiveClass) {
+            activeClasses.push(this.epubContent.mediaActiveClass);
+        }
+        
+        this.activeFragmentEl?.removeClass(...activeClasses);
+        this.activeFragmentEl = null;
+        if (!clip) return;
+        
+        const fragmentEl = this.getCurrentSectionEl()?.querySelector(`[id="${CSS.escape(clip.fragment)}"]`);
+        if (fragmentEl instanceof HTMLElement) {
+            fragmentEl.addClass(...activeClasses);
+            this.revealElement(fragmentEl, true);
+            this.activeFragmentEl = fragmentEl;
+        }
+    }
+
+    // Continue the narration in the next chapter once a chapter has been read
+    private async handleMediaOverlayEnd() {
+        if (!this.readAloud) return;
+        
+        if (await this.findLinearChapter(this.currentChapterIndex, 1)) {
+            this.navigateToNextChapter();
+        } else {
+            this.readAloud = false;
+            this.updateReadAloudButton();
+        }
+    }
+
+    // Find the nearest spine item in the given direction that is part of the linear reading order.
+    // Documents holding only notes are skipped; their notes are read through noteref popovers.
+    private async findLinearChapter(fromIndex: number, step: number): Promise<string | null> {
+        if (!this.epubContent) return null;
+        
+        const items = this.epubContent.spine.items;
+        for (let i = fromIndex + step; i >= 0 && i < items.length; i += step) {
+            if (!this.epubContent.isLinear(items[i])) continue;
+            
+            const content = await this.epubContent.getChapter(items[i]);
+            if (content && isNotesDocument(content)) continue;
+            
+            return items[i];
+        }
+        return null;
+    }
+
+    // Whether pages progress from right to left, which flips the navigation controls
+    private isRightToLeft(): boolean {
+        return this.epubContent?.spine.pageProgressionDirection === 'rtl';
+    }
+
+    // Arrow keys turn pages, or chapters in scroll mode, in the book's page progression direction
+    private handleKeydown(evt: KeyboardEvent) {
+        if (!this.epubContent) return;
+        
+        const target = evt.target as HTMLElement;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+        
+        if (evt.key === 'Escape' && this.footnotePopoverEl) {
+            this.closeFootnote();
+            evt.preventDefault();
+            return;
+        }
+        
+        if (evt.key !== 'ArrowLeft' && evt.key !== 'ArrowRight') return;
+        
+        // Alt+Arrow moves through the link history
+        if (evt.altKey) {
+            if (evt.key === 'ArrowLeft') {
+                this.goBack();
+            } else {
+                this.goForward();
+            }
+            evt.preventDefault();
+            return;
+        }
+        
+        const forward = (evt.key === 'ArrowRight') !== this.isRightToLeft();
+        this.turnPage(forward ? 1 : -1);
+        evt.preventDefault();
     }
 
     private updateProgressDisplay() {
         // Calculate overall progress
-        const overallProgress = this.totalChapters === 0 ? 0 : 
-            ((this.currentChapterIndex / this.totalChapters) * 100).toFixed(1);
+        const overallProgress = Math.round(this.getOverallProgress() * 10) / 10;
         
         // Update progress text
         const progressText = this.footerEl.querySelector('.ebook-reader-progress-text');
         if (progressText) {
-            progressText.textContent = `${this.currentChapterIndex + 1} of ${this.totalChapters} (${overallProgress}%)`;
+            const chapterProgress = `${this.currentChapterIndex + 1} of ${this.totalChapters} (${overallProgress.toFixed(1)}%)`;
+            progressText.textContent = this.isPaginated() ? 
+                `Page ${this.currentPage + 1} of ${this.getPageCount()} in chapter · ${chapterProgress}` : 
+                chapterProgress;
         }
         
-        // Update progress slider
+        // Update progress slider, unless it is being dragged
         const progressSlider = this.footerEl.querySelector('.ebook-reader-progress-slider') as HTMLInputElement;
-        if (progressSlider && this.readingState) {
-            progressSlider.value = this.readingState.position.toString();
+        if (progressSlider && this.readingState && !progressSlider.matches(':active')) {
+            progressSlider.value = overallProgress.toString();
         }
         
         // Update book progress in library
-        if (this.book) {
-            this.book.progress = Number(overallProgress);
-            this.plugin.library.updateBook(this.book);
+        if (this.book && this.book.progress !== overallProgress) {
+            this.book.progress = overallProgress;
+            this.saveBookProgress();
+        }
+        
+        this.recordReadingActivity(overallProgress);
+        
+        // Measure reading speed from the movement through the book, and estimate the time left
+        const words = this.getWordPosition();
+        if (this.book && words) {
+            this.plugin.readingSpeed.recordPosition(this.book.id, words.read);
+        }
+        const timeLeftEl = this.footerEl.querySelector('.ebook-reader-time-left');
+        if (timeLeftEl instanceof HTMLElement) {
+            timeLeftEl.toggle(!!words);
+            if (words) {
+                const speed = this.plugin.readingSpeed;
+                timeLeftEl.setText(`${formatReadingTime(speed.estimateMinutes(words.chapterLeft))} left in chapter · ` +
+                    `${formatReadingTime(speed.estimateMinutes(words.total - words.read))} left in book`);
+            }
         }
     }
 
-    private applyHighlights(container: HTMLElement) {
-        if (!this.readingState || !this.epubContent) return;
+    // Count the time since the last action towards the current reading session
+    private recordReadingActivity(progress: number = this.book?.progress || 0) {
+        if (!this.book || !this.readingState) return;
+        this.sessionTracker.recordActivity(this.book.id, this.readingState.currentLocation, progress);
+    }
+
+    // Words before the reading position, left in the chapter, and in the whole book; null until the chapters are counted
+    private getWordPosition(): { read: number; chapterLeft: number; total: number } | null {
+        const wordCounts = this.book?.wordCounts;
+        if (!wordCounts || !this.readingState) return null;
         
-        const currentItemId = this.readingState.currentLocation;
-        const highlights = this.readingState.highlights.filter(h => h.chapterId === currentItemId);
+        const items = this.getProgressItems();
+        if (items.some(itemId => wordCounts[itemId] === undefined)) return null;
         
-        if (highlights.length === 0) return;
+        const index = items.indexOf(this.readingState.currentLocation);
+        const chapterWords = index === -1 ? 0 : wordCounts[items[index]];
+        const chapterRead = Math.round(chapterWords * this.getChapterPosition() / 100);
+        const read = items.slice(0, Math.max(index, 0)).reduce((sum, itemId) => sum + wordCounts[itemId], 0) + chapterRead;
+        const total = items.reduce((sum, itemId) => sum + wordCounts[itemId], 0);
         
-        // This is a simplified implementation - in practice, you'd need to use a
-        // more robust text finding and highlighting approach
-        const textNodes = this.getTextNodes(container);
+        return { read, chapterLeft: chapterWords - chapterRead, total };
+    }
+
+    // Share of the whole book read, weighted by the length of each chapter
+    private getOverallProgress(): number {
+        if (!this.epubContent || !this.readingState) return 0;
         
-        highlights.forEach(highlight => {
-            // Find the text and wrap it in a highlight span
-            // This is a simplified approach and might not work for all cases
-            const textContent = container.textContent || '';
-            const highlightText = highlight.text;
-            
-            if (textContent.includes(highlightText)) {
-                // Replace the text with highlighted version
-                // Note: This is not a robust implementation
-                const regex = new RegExp(this.escapeRegExp(highlightText), 'g');
-                const highlightedHtml = `<span class="ebook-highlight" style="background-color: ${highlight.color};" data-highlight-id="${highlight.id}">${highlightText}</span>`;
-                
-                // This is a simplistic approach - would need more robust implementation
-                container.innerHTML = container.innerHTML.replace(regex, highlightedHtml);
-            }
-        });
+        const items = this.getProgressItems();
+        const lengths = this.book?.contentLengths || {};
+        const itemId = this.readingState.currentLocation;
+        
+        const position = this.getChapterPosition();
+        if (items.includes(itemId)) {
+            return getBookProgress(items, lengths, itemId, position);
+        }
+        
+        // An item outside the reading order, such as a footnote, counts as the place it sits in the spine
+        const spine = this.epubContent.spine.items;
+        const next = items.find(id => spine.indexOf(id) > spine.indexOf(itemId));
+        return next ? getBookProgress(items, lengths, next, 0) : 100;
     }
 
-    private escapeRegExp(string: string): string {
-        return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Percentage of the chapter read. Reaching the end of a chapter counts it as read, even when it is too short to scroll.
+    private getChapterPosition(): number {
+        if (!this.readingState) return 0;
+        return this.isChapterEndVisible() ? 100 : this.readingState.position;
     }
 
-    private getTextNodes(node: Node): Text[] {
-        const textNodes: Text[] = [];
+    // The linear spine items, which make up the reading order progress is measured through
+    private getProgressItems(): string[] {
+        const epubContent = this.epubContent;
+        if (!epubContent) return [];
+        return epubContent.spine.items.filter(itemId => epubContent.isLinear(itemId) && epubContent.hasChapter(itemId));
+    }
+
+    private getSliderLocation(slider: HTMLInputElement): { itemId: string; position: number } | null {
+        return getProgressLocation(this.getProgressItems(), this.book?.contentLengths || {}, parseFloat(slider.value));
+    }
+
+    // Whether the end of the chapter in view is on screen
+    private isChapterEndVisible(): boolean {
+        if (!this.readerEl || !this.getChapterEl()) return false;
         
-        function collectTextNodes(node: Node) {
-            if (node.nodeType === Node.TEXT_NODE) {
-                textNodes.push(node as Text);
-            } else {
-                const children = node.childNodes;
-                for (let i = 0; i < children.length; i++) {
-                    collectTextNodes(children[i]);
-                }
+        if (this.isPaginated()) {
+            return this.currentPage >= this.getPageCount() - 1;
+        }
+        
+        const sectionEl = this.getCurrentSectionEl();
+        if (this.isContinuous() && sectionEl) {
+            return sectionEl.getBoundingClientRect().bottom <= this.readerEl.getBoundingClientRect().bottom + 1;
+        }
+        return this.readerEl.scrollTop + this.readerEl.clientHeight >= this.readerEl.scrollHeight - 1;
+    }
+
+    // Measure the text of each spine item once per book, so that progress and reading time reflect how long chapters are
+    private async measureContent() {
+        const book = this.book;
+        const epubContent = this.epubContent;
+        const bookSearch = this.bookSearch;
+        if (!book || !epubContent || !bookSearch) return;
+        
+        const lengths = { ...(book.contentLengths || {}) };
+        const wordCounts = { ...(book.wordCounts || {}) };
+        const missing = epubContent.spine.items.filter(itemId => lengths[itemId] === undefined || wordCounts[itemId] === undefined);
+        if (missing.length === 0) return;
+        
+        try {
+            for (const itemId of missing) {
+                const text = epubContent.hasChapter(itemId) ? await bookSearch.getText(itemId) : '';
+                if (this.book !== book) return;
+                
+                lengths[itemId] = text.replace(/\s+/g, ' ').trim().length;
+                wordCounts[itemId] = countWords(text);
+                
+                // Leave time for reading between chapters
+                await new Promise(resolve => window.setTimeout(resolve, 0));
             }
+        } catch (e) {
+            console.error(`Error measuring the chapters of ${book.path}:`, e);
+            return;
         }
         
-        collectTextNodes(node);
-        return textNodes;
+        book.contentLengths = lengths;
+        book.wordCounts = wordCounts;
+        if (this.book === book) {
+            this.updateProgressDisplay();
+        }
+        await this.plugin.library.updateBook(book);
+    }
+
+    // Wrap the text of a chapter's highlights, re-anchoring any whose text has moved in the book
+    private applyHighlights(container: HTMLElement, itemId: string) {
+        if (!this.readingState || !this.epubContent) return;
+        
+        const highlights = this.readingState.highlights.filter(h => h.chapterId === itemId);
+        const root = container.querySelector(`.${CFI_ROOT_CLASS}`);
+        if (highlights.length === 0 || !root) return;
+        
+        const text = root.textContent || '';
+        let reanchored = false;
+        highlights.forEach(highlight => {
+            const found = anchorText(text, {
+                start: highlight.startOffset,
+                end: highlight.endOffset,
+                exact: highlight.text,
+                prefix: highlight.prefix || '',
+                suffix: highlight.suffix || ''
+            });
+            if (!found) {
+                console.warn(`Highlight ${highlight.id} could not be found in ${itemId}`);
+                return;
+            }
+            
+            if (found.start !== highlight.startOffset || found.end !== highlight.endOffset) {
+                // Remember the new place, and the text as it reads now
+                const anchor = createTextAnchor(text, found.start, found.end);
+                highlight.text = anchor.exact;
+                highlight.prefix = anchor.prefix;
+                highlight.suffix = anchor.suffix;
+                highlight.startOffset = anchor.start;
+                highlight.endOffset = anchor.end;
+                highlight.cfi = createCfiFromTextOffset(
+                    this.epubContent?.spine.items.indexOf(itemId) ?? -1, itemId, root, anchor.start, anchor.end - anchor.start
+                ) || highlight.cfi;
+                reanchored = true;
+            }
+            
+            this.wrapHighlight(root, highlight);
+        });
+        
+        if (reanchored) {
+            this.saveReadingState();
+        }
+    }
+
+    private wrapHighlight(root: Element, highlight: Highlight) {
+        const range = rangeFromOffsets(root, highlight.startOffset, highlight.endOffset);
+        if (!range) return;
+        
+        wrapRange(range, () => {
+            const span = createSpan({ cls: 'ebook-highlight', attr: { 'data-highlight-id': highlight.id } });
+            span.style.backgroundColor = highlight.color;
+            return span;
+        });
     }
 
     private setupTextSelectionHandlers(container: HTMLElement) {
@@ -714,23 +2465,22 @@ export class ReaderView extends ItemView {
             if (selection && !selection.isCollapsed) {
                 const text = selection.toString().trim();
                 if (text) {
-                    this.showTextSelectionMenu(evt as MouseEvent, text);
+                    this.showTextSelectionMenu(evt as MouseEvent, text, selection.getRangeAt(0).cloneRange());
                 }
             }
         });
     }
 
-    private showTextSelectionMenu(evt: MouseEvent, selectedText: string) {
+    private showTextSelectionMenu(evt: MouseEvent, selectedText: string, range: Range) {
         const menu = new Menu();
         
         // Add highlight options
-        const highlightColors = ['yellow', 'green', 'blue', 'pink', 'purple'];
-        highlightColors.forEach(color => {
+        HIGHLIGHT_COLORS.forEach(color => {
             menu.addItem(item => {
                 item
                     .setTitle(`Highlight ${color}`)
                     .onClick(() => {
-                        this.addHighlight(selectedText, color);
+                        this.addHighlight(color, range);
                     });
             });
         });
@@ -740,7 +2490,7 @@ export class ReaderView extends ItemView {
             item
                 .setTitle('Add Note')
                 .onClick(() => {
-                    this.addNote(selectedText);
+                    this.addNote(selectedText, range);
                 });
         });
         
@@ -757,82 +2507,103 @@ export class ReaderView extends ItemView {
         menu.showAtMouseEvent(evt);
     }
 
-    private addHighlight(text: string, color: string) {
+    private addHighlight(color: string, range: Range) {
         if (!this.readingState) return;
         
+        const location = this.getRangeLocation(range, false);
+        const anchor = location ? describeRange(location.root, range) : null;
+        if (!location || !anchor) {
+            new Notice('Select text in the book to highlight it');
+            return;
+        }
+        
         const highlight: Highlight = {
             id: `highlight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            chapterId: this.readingState.currentLocation,
-            text,
-            startOffset: 0, // This would need to be calculated for proper implementation
-            endOffset: 0,   // This would need to be calculated for proper implementation
+            chapterId: location.itemId,
+            text: anchor.exact,
+            prefix: anchor.prefix,
+            suffix: anchor.suffix,
+            startOffset: anchor.start,
+            endOffset: anchor.end,
+            cfi: location.cfi,
             color,
             createdAt: Date.now()
         };
         
         this.readingState.highlights.push(highlight);
         this.saveReadingState();
+        this.annotationsChanged();
         
-        // Refresh the current chapter to show the highlight
-        this.navigateToLocation(this.readingState.currentLocation, this.readingState.position);
+        // Show the highlight in place
+        window.getSelection()?.removeAllRanges();
+        this.wrapHighlight(location.root, highlight);
     }
 
-    private addNote(text?: string) {
+    private addNote(text?: string, range?: Range) {
         if (!this.readingState) return;
         
-        // Create a modal for entering the note
-        // For simplicity, we're just using a prompt here
-        const noteText = prompt('Enter your note:', text || '');
-        if (!noteText) return;
-        
-        const note: Note = {
-            id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            chapterId: this.readingState.currentLocation,
-            text: noteText,
-            position: this.readingState.position,
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-        };
-        
-        this.readingState.notes.push(note);
-        this.saveReadingState();
+        // Notes on a selection are placed at its start, others at the text on screen
+        const location = range ? this.getRangeLocation(range, true) : null;
+        const chapterId = location?.itemId || this.readingState.currentLocation;
+        const position = this.readingState.position;
+        const cfi = location ? location.cfi : this.readingState.cfi;
+        
+        // A note on highlighted text belongs to that highlight
+        const startEl = range ? (range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement) : null;
+        const highlightId = startEl?.closest('.ebook-highlight')?.getAttribute('data-highlight-id') || undefined;
+        
+        new NoteEditorModal(this.app, {
+            title: 'Add Note',
+            quote: text,
+            text: '',
+            tags: [],
+            onSave: (noteText, tags) => {
+                if (!this.readingState || !noteText) return;
+                
+                const note: Note = {
+                    id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                    chapterId,
+                    text: noteText,
+                    quote: text,
+                    tags,
+                    associatedHighlightId: highlightId,
+                    position,
+                    cfi,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now()
+                };
+                
+                this.readingState.notes.push(note);
+                this.saveReadingState();
+                this.annotationsChanged();
+            }
+        }).open();
     }
 
     private addBookmark() {
         if (!this.readingState || !this.book) return;
         
-        // Get current chapter title or generate one
-        let chapterTitle = `Chapter ${this.currentChapterIndex + 1}`;
+        const chapterTitle = this.getChapterTitle(this.readingState.currentLocation);
+        const chapterId = this.readingState.currentLocation;
+        const position = this.readingState.position;
+        const cfi = this.getVisibleCfi() || undefined;
         
-        // Try to find a better title from the navigation points
-        if (this.epubContent && this.epubContent.navPoints) {
-            const currentItemId = this.readingState.currentLocation;
-            const item = this.epubContent.manifest[currentItemId];
+        new BookmarkModal(this.app, `${this.book.title} - ${chapterTitle}`, bookmarkTitle => {
+            if (!this.readingState) return;
             
-            if (item) {
-                // Try to find a nav point that points to this item
-                for (const navPoint of this.epubContent.navPoints) {
-                    if (navPoint.href.includes(item.href.split('/').pop() || '')) {
-                        chapterTitle = navPoint.label;
-                        break;
-                    }
-                }
-            }
-        }
-        
-        const bookmarkTitle = prompt('Bookmark title:', `${this.book.title} - ${chapterTitle}`);
-        if (!bookmarkTitle) return;
-        
-        const bookmark: Bookmark = {
-            id: `bookmark_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            chapterId: this.readingState.currentLocation,
-            position: this.readingState.position,
-            createdAt: Date.now(),
-            title: bookmarkTitle
-        };
-        
-        this.readingState.bookmarks.push(bookmark);
-        this.saveReadingState();
+            const bookmark: Bookmark = {
+                id: `bookmark_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                chapterId,
+                position,
+                cfi,
+                createdAt: Date.now(),
+                title: bookmarkTitle
+            };
+            
+            this.readingState.bookmarks.push(bookmark);
+            this.saveReadingState();
+            this.annotationsChanged();
+        }).open();
     }
 
     private saveReadingState() {
@@ -859,6 +2630,9 @@ export class ReaderView extends ItemView {
         
         // Apply margins
         this.containerDiv.style.setProperty('--ebook-margins', `${this.plugin.settings.reading.margins}em`);
+        
+        // Text size changes move the page breaks
+        this.refreshLayout();
     }
 
     private showSettingsMenu(evt: MouseEvent) {
@@ -937,6 +2711,47 @@ export class ReaderView extends ItemView {
                 });
         });
         
+        // Reading modes other than the current one
+        const modes: [ReadingFlow, string][] = [
+            ['scrolled-doc', 'Scroll Mode'],
+            ['scrolled-continuous', 'Continuous Scroll Mode'],
+            ['paginated', 'Paginated Mode']
+        ];
+        modes.filter(([flow]) => flow !== this.plugin.settings.reading.flow).forEach(([flow, title]) => {
+            menu.addItem(item => {
+                item
+                    .setTitle(title)
+                    .onClick(() => {
+                        // Measure the position in the old mode before switching
+                        const position = this.getScrollPercent();
+                        const cfi = this.getVisibleCfi() || undefined;
+                        this.plugin.settings.reading.flow = flow;
+                        this.plugin.saveSettings();
+                        
+                        // Re-render the chapter in the new mode, carrying the position over
+                        if (this.readingState) {
+                            this.navigateToLocation(this.readingState.currentLocation, position, undefined, cfi);
+                        }
+                    });
+            });
+        });
+        
+        // Publisher styles
+        menu.addItem(item => {
+            item
+                .setTitle(this.plugin.settings.reading.publisherStyles ? 'My Styles Only' : 'Publisher Styles')
+                .onClick(() => {
+                    this.plugin.settings.reading.publisherStyles = !this.plugin.settings.reading.publisherStyles;
+                    this.plugin.saveSettings();
+                    this.applyReadingSettings();
+                    
+                    // Re-render the chapter with or without the book's stylesheets
+                    if (this.readingState) {
+                        this.navigateToLocation(this.readingState.currentLocation, this.readingState.position, undefined, this.readingState.cfi);
+                    }
+                });
+        });
+        
         // Add bookmark
         menu.addItem(item => {
             item
@@ -946,6 +2761,15 @@ export class ReaderView extends ItemView {
                 });
         });
         
+        // Link for citing the current place in a note
+        menu.addItem(item => {
+            item
+                .setTitle('Copy Link to Current Location')
+                .onClick(() => {
+                    this.copyLocationLink();
+                });
+        });
+        
         menu.showAtMouseEvent(evt);
     }
 
@@ -968,7 +2792,7 @@ export class ReaderView extends ItemView {
                 item
                     .setTitle(bookmark.title)
                     .onClick(() => {
-                        this.navigateToLocation(bookmark.chapterId, bookmark.position);
+                        this.navigateToLocation(bookmark.chapterId, bookmark.position, undefined, bookmark.cfi);
                     });
             });
         });
@@ -1026,11 +2850,13 @@ export class ReaderView extends ItemView {
     }
 
     onClose(): Promise<void> {
-        // Revoke all blob URLs to prevent memory leaks
-        this.blobUrls.forEach(url => {
-            URL.revokeObjectURL(url);
-        });
-        this.blobUrls = [];
+        this.readAloud = false;
+        this.mediaPlayer.destroy();
+        this.bookSearch?.cancel();
+        this.sessionTracker.end();
+        this.saveBookProgress.run();
+        this.releaseResources();
+        this.epubContent?.clearCache();
         
         // Save the current reading state
         if (this.readingState && this.book) {
@@ -1039,6 +2865,8 @@ export class ReaderView extends ItemView {
         
         // Clean up
         this.containerDiv.empty();
+        this.readingState = null;
+        this.plugin.refreshAnnotationsViews();
         return Promise.resolve();
     }
-}
\ No newline at end of file
+}
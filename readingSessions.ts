@@ -0,0 +1,183 @@
+import { debounce } from 'obsidian';
+
+// A longer pause between two actions in the reader is idle time, not reading
+const IDLE_TIMEOUT = 2 * 60 * 1000;
+
+// A longer pause ends the session, and reading again starts a new one
+const SESSION_GAP = 10 * 60 * 1000;
+
+// Sessions with less active time than this are not kept, such as opening a book to look something up
+const MIN_SESSION_TIME = 30 * 1000;
+
+// Progress at which a book counts as finished
+const FINISHED_PROGRESS = 99;
+
+/**
+ * A stretch of reading one book
+ */
+export interface ReadingSession {
+    start: number;
+    end: number; // Time of the last action in the session
+    activeTime: number; // Milliseconds spent reading, leaving out idle time
+    chapters: string[]; // Spine items read, in the order they were reached
+    startProgress: number;
+    endProgress: number;
+}
+
+/**
+ * Follows the reading in a reader view and turns it into sessions. A session starts with the first
+ * action in a book and ends when another book is opened, the reader is closed or reading pauses
+ * for a while. Sessions in progress are saved from time to time so they survive the app closing.
+ */
+export class ReadingSessionTracker {
+    private current: { bookId: string; session: ReadingSession; lastActivity: number } | null = null;
+    private onSave: (bookId: string, session: ReadingSession) => Promise<void>;
+    private scheduleSave = debounce(() => this.save(), 30 * 1000);
+
+    constructor(onSave: (bookId: string, session: ReadingSession) => Promise<void>) {
+        this.onSave = onSave;
+    }
+
+    /**
+     * Record an action in the reader, such as scrolling or turning a page
+     */
+    recordActivity(bookId: string, chapterId: string, progress: number) {
+        const now = Date.now();
+        if (this.current && (this.current.bookId !== bookId || now - this.current.lastActivity > SESSION_GAP)) {
+            this.end();
+        }
+
+        if (!this.current) {
+            this.current = {
+                bookId,
+                lastActivity: now,
+                session: { start: now, end: now, activeTime: 0, chapters: [chapterId], startProgress: progress, endProgress: progress }
+            };
+            return;
+        }
+
+        const { session } = this.current;
+        this.addActiveTime(now);
+        session.end = now;
+        session.endProgress = progress;
+        if (!session.chapters.includes(chapterId)) {
+            session.chapters.push(chapterId);
+        }
+        this.current.lastActivity = now;
+        this.scheduleSave();
+    }
+
+    /**
+     * Finish the current session
+     */
+    end() {
+        this.addActiveTime(Date.now());
+        this.save();
+        this.current = null;
+    }
+
+    // The time since the last action was spent reading, unless it was long enough to be a pause
+    private addActiveTime(now: number) {
+        if (!this.current) return;
+
+        const pause = now - this.current.lastActivity;
+        if (pause > IDLE_TIMEOUT) return;
+
+        this.current.session.activeTime += pause;
+        this.current.session.end = now;
+    }
+
+    private save() {
+        if (!this.current || this.current.session.activeTime < MIN_SESSION_TIME) return;
+        this.onSave(this.current.bookId, { ...this.current.session, chapters: [...this.current.session.chapters] })
+            .catch(e => console.error('Error saving reading session:', e));
+    }
+}
+
+/**
+ * Reading statistics over all sessions. Times are in minutes, and sessions count for the day they started.
+ */
+export interface ReadingStats {
+    days: Map<string, number>; // Reading time by day, keyed by getDayKey
+    today: number;
+    thisWeek: number;
+    total: number;
+    streak: number; // Days in a row with reading, up to today or yesterday
+    books: { bookId: string; minutes: number; sessions: number; lastRead: number }[];
+    finished: { bookId: string; date: number }[];
+}
+
+export function computeReadingStats(sessionsByBook: Record<string, ReadingSession[]>, now: Date = new Date()): ReadingStats {
+    const days = new Map<string, number>();
+    const books: ReadingStats['books'] = [];
+    const finished: ReadingStats['finished'] = [];
+
+    Object.keys(sessionsByBook).forEach(bookId => {
+        const sessions = [...sessionsByBook[bookId]].sort((a, b) => a.start - b.start);
+        if (sessions.length === 0) return;
+
+        let minutes = 0;
+        sessions.forEach(session => {
+            const sessionMinutes = session.activeTime / 60000;
+            const day = getDayKey(session.start);
+            days.set(day, (days.get(day) || 0) + sessionMinutes);
+            minutes += sessionMinutes;
+        });
+        books.push({ bookId, minutes, sessions: sessions.length, lastRead: sessions[sessions.length - 1].end });
+
+        // The book was finished in the first session that reached the end
+        const finishing = sessions.find(session => session.endProgress >= FINISHED_PROGRESS && session.startProgress < FINISHED_PROGRESS);
+        if (finishing) {
+            finished.push({ bookId, date: finishing.end });
+        }
+    });
+
+    const weekStart = getWeekStart(now).getTime();
+    let thisWeek = 0;
+    Object.keys(sessionsByBook).forEach(bookId => sessionsByBook[bookId].forEach(session => {
+        if (session.start >= weekStart) thisWeek += session.activeTime / 60000;
+    }));
+
+    return {
+        days,
+        today: days.get(getDayKey(now.getTime())) || 0,
+        thisWeek,
+        total: books.reduce((sum, book) => sum + book.minutes, 0),
+        streak: getStreak(days, now),
+        books: books.sort((a, b) => b.minutes - a.minutes),
+        finished
+    };
+}
+
+/**
+ * Local date of a time as YYYY-MM-DD
+ */
+export function getDayKey(time: number): string {
+    const date = new Date(time);
+    const pad = (value: number) => `0${value}`.slice(-2);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Midnight at the start of the Monday of a date's week
+ */
+export function getWeekStart(date: Date): Date {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    return start;
+}
+
+// Reading today does not have to have happened yet for the streak to continue
+function getStreak(days: Map<string, number>, now: Date): number {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (!days.get(getDayKey(day.getTime()))) {
+        day.setDate(day.getDate() - 1);
+    }
+
+    let streak = 0;
+    while (days.get(getDayKey(day.getTime()))) {
+        streak++;
+        day.setDate(day.getDate() - 1);
+    }
+    return streak;
+}
@@ -0,0 +1,101 @@
+import { debounce } from 'obsidian';
+import EbookReaderPlugin from './main';
+
+// Reading speed assumed until enough reading has been measured
+export const DEFAULT_WORDS_PER_MINUTE = 250;
+
+// Minutes of measured reading before the measured speed is used
+const MIN_MEASURED_MINUTES = 5;
+
+// Minutes of reading the speed is averaged over, so it follows changes in how fast the reader reads
+const MAX_MEASURED_MINUTES = 600;
+
+// A longer pause between two movements through the book is idle time, not reading
+const IDLE_TIMEOUT = 2 * 60 * 1000;
+
+// Movements faster than this are skimming or jumps, such as following a link, not reading
+const MAX_WORDS_PER_MINUTE = 1500;
+
+/**
+ * Words read and the active minutes spent reading them
+ */
+export interface ReadingSpeedData {
+    words: number;
+    minutes: number;
+}
+
+/**
+ * The user's reading speed, measured from the words passed between movements through a book
+ * while reading actively. Pauses, jumps and moving backwards are left out.
+ */
+export class ReadingSpeed {
+    private plugin: EbookReaderPlugin;
+    private data: ReadingSpeedData = { words: 0, minutes: 0 };
+    private last: { bookId: string; words: number; time: number } | null = null;
+    private scheduleSave = debounce(() => this.plugin.storageManager.saveReadingSpeed(this.data), 5000);
+
+    constructor(plugin: EbookReaderPlugin) {
+        this.plugin = plugin;
+    }
+
+    async load(): Promise<void> {
+        this.data = await this.plugin.storageManager.getReadingSpeed() || { words: 0, minutes: 0 };
+    }
+
+    /**
+     * Record the reading position, as the number of words from the start of the book
+     */
+    recordPosition(bookId: string, words: number) {
+        // Staying in place keeps the time since the last movement
+        const last = this.last;
+        if (last && last.bookId === bookId && last.words === words) return;
+
+        const now = Date.now();
+        this.last = { bookId, words, time: now };
+        if (!last || last.bookId !== bookId) return;
+
+        const read = words - last.words;
+        const minutes = (now - last.time) / 60000;
+        if (read <= 0 || minutes <= 0 || now - last.time > IDLE_TIMEOUT || read / minutes > MAX_WORDS_PER_MINUTE) return;
+
+        this.data.words += read;
+        this.data.minutes += minutes;
+        if (this.data.minutes > MAX_MEASURED_MINUTES) {
+            const scale = MAX_MEASURED_MINUTES / this.data.minutes;
+            this.data.words *= scale;
+            this.data.minutes *= scale;
+        }
+        this.scheduleSave();
+    }
+
+    getWordsPerMinute(): number {
+        if (this.data.minutes < MIN_MEASURED_MINUTES || this.data.words <= 0) return DEFAULT_WORDS_PER_MINUTE;
+        return this.data.words / this.data.minutes;
+    }
+
+    /**
+     * Minutes it takes to read a number of words
+     */
+    estimateMinutes(words: number): number {
+        return Math.max(0, words) / this.getWordsPerMinute();
+    }
+}
+
+/**
+ * Count the words in a text
+ */
+export function countWords(text: string): number {
+    return (text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || []).length;
+}
+
+/**
+ * Describe a reading time, such as "12 min" or "4 h 10 min"
+ */
+export function formatReadingTime(minutes: number): string {
+    const rounded = Math.max(1, Math.round(minutes));
+    const hours = Math.floor(rounded / 60);
+    if (hours === 0) return `${rounded} min`;
+
+    const rest = rounded % 60;
+    return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
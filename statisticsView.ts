@@ -0,0 +1,231 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import EbookReaderPlugin from './main';
+import { ReadingStats, computeReadingStats, getDayKey, getWeekStart } from './readingSessions';
+import { formatReadingTime } from './readingSpeed';
+
+export const STATISTICS_VIEW_TYPE = 'ebook-statistics-view';
+
+// Number of days, weeks and months shown in the charts
+const CHART_DAYS = 14;
+const CHART_WEEKS = 12;
+const CHART_MONTHS = 12;
+
+// Weeks of reading shown in the activity heatmap
+const HEATMAP_WEEKS = 53;
+
+// Minutes of reading a day at which the heatmap turns one shade darker
+const HEATMAP_LEVELS = [1, 15, 30, 60];
+
+interface ChartBar {
+    label: string;
+    value: number;
+    tooltip: string;
+}
+
+export class StatisticsView extends ItemView {
+    private plugin: EbookReaderPlugin;
+    private containerDiv: HTMLElement;
+    private contentDiv: HTMLElement;
+    private refreshId: number = 0;
+
+    constructor(leaf: WorkspaceLeaf, plugin: EbookReaderPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return STATISTICS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'E-Book Reading Statistics';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.containerDiv = this.containerEl.createDiv({ cls: 'ebook-statistics-container' });
+        this.containerDiv.createEl('h2', { text: 'Reading Statistics' });
+        this.contentDiv = this.containerDiv.createDiv({ cls: 'ebook-statistics-content' });
+
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.refreshId++;
+        this.containerDiv?.empty();
+    }
+
+    // Re-render the statistics from the saved reading sessions
+    async refresh() {
+        if (!this.contentDiv) return;
+
+        const refreshId = ++this.refreshId;
+        const sessions = await this.plugin.storageManager.getAllReadingSessions();
+
+        // A newer refresh has started in the meantime
+        if (refreshId !== this.refreshId) return;
+
+        this.contentDiv.empty();
+        const stats = computeReadingStats(sessions);
+        if (stats.books.length === 0) {
+            this.contentDiv.createDiv({
+                cls: 'ebook-statistics-empty',
+                text: 'No reading recorded yet. Your reading time is recorded as you read books in the reader.'
+            });
+            return;
+        }
+
+        this.renderSummary(stats);
+        this.renderSection('Daily Reading Time', el => this.renderChart(el, this.getDailyBars(stats), formatMinutes));
+        this.renderSection('Weekly Reading Time', el => this.renderChart(el, this.getWeeklyBars(stats), formatMinutes));
+        this.renderSection('Books Finished', el => this.renderChart(el, this.getMonthlyBars(stats), value => value.toString()));
+        this.renderSection('Activity', el => this.renderHeatmap(el, stats));
+        this.renderSection('Time per Book', el => this.renderBooks(el, stats));
+    }
+
+    private renderSummary(stats: ReadingStats) {
+        const summaryEl = this.contentDiv.createDiv({ cls: 'ebook-statistics-summary' });
+        const addCard = (label: string, value: string) => {
+            const cardEl = summaryEl.createDiv({ cls: 'ebook-statistics-card' });
+            cardEl.createDiv({ cls: 'ebook-statistics-card-value', text: value });
+            cardEl.createDiv({ cls: 'ebook-statistics-card-label', text: label });
+        };
+
+        addCard('Today', formatMinutes(stats.today));
+        addCard('This week', formatMinutes(stats.thisWeek));
+        addCard('Current streak', stats.streak === 1 ? '1 day' : `${stats.streak} days`);
+        addCard('Total', formatMinutes(stats.total));
+    }
+
+    private renderSection(title: string, render: (el: HTMLElement) => void) {
+        const sectionEl = this.contentDiv.createDiv({ cls: 'ebook-statistics-section' });
+        sectionEl.createEl('h3', { text: title });
+        render(sectionEl);
+    }
+
+    // Vertical bars, scaled to the highest one
+    private renderChart(el: HTMLElement, bars: ChartBar[], format: (value: number) => string) {
+        const chartEl = el.createDiv({ cls: 'ebook-statistics-chart' });
+        const max = Math.max(...bars.map(bar => bar.value));
+
+        bars.forEach(bar => {
+            const columnEl = chartEl.createDiv({ cls: 'ebook-statistics-column', attr: { 'aria-label': bar.tooltip } });
+            columnEl.createDiv({ cls: 'ebook-statistics-bar-value', text: bar.value > 0 ? format(bar.value) : '' });
+            const trackEl = columnEl.createDiv({ cls: 'ebook-statistics-bar-track' });
+            const barEl = trackEl.createDiv({ cls: 'ebook-statistics-bar' });
+            barEl.style.height = max > 0 ? `${bar.value / max * 100}%` : '0';
+            columnEl.createDiv({ cls: 'ebook-statistics-bar-label', text: bar.label });
+        });
+    }
+
+    private getDailyBars(stats: ReadingStats): ChartBar[] {
+        const today = new Date();
+        const bars: ChartBar[] = [];
+        for (let i = CHART_DAYS - 1; i >= 0; i--) {
+            const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+            const minutes = stats.days.get(getDayKey(date.getTime())) || 0;
+            bars.push({
+                label: date.toLocaleDateString(undefined, { weekday: 'narrow' }),
+                value: minutes,
+                tooltip: `${date.toLocaleDateString()}: ${formatMinutes(minutes)}`
+            });
+        }
+        return bars;
+    }
+
+    private getWeeklyBars(stats: ReadingStats): ChartBar[] {
+        const thisWeek = getWeekStart(new Date());
+        const bars: ChartBar[] = [];
+        for (let i = CHART_WEEKS - 1; i >= 0; i--) {
+            const start = new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - i * 7);
+            let minutes = 0;
+            for (let day = 0; day < 7; day++) {
+                const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + day);
+                minutes += stats.days.get(getDayKey(date.getTime())) || 0;
+            }
+            bars.push({
+                label: start.toLocaleDateString(undefined, { month: 'numeric', day: 'numeric' }),
+                value: minutes,
+                tooltip: `Week of ${start.toLocaleDateString()}: ${formatMinutes(minutes)}`
+            });
+        }
+        return bars;
+    }
+
+    private getMonthlyBars(stats: ReadingStats): ChartBar[] {
+        const today = new Date();
+        const bars: ChartBar[] = [];
+        for (let i = CHART_MONTHS - 1; i >= 0; i--) {
+            const month = new Date(today.getFullYear(), today.getMonth() - i, 1);
+            const titles = stats.finished
+                .filter(book => {
+                    const date = new Date(book.date);
+                    return date.getFullYear() === month.getFullYear() && date.getMonth() === month.getMonth();
+                })
+                .map(book => this.plugin.library.getBook(book.bookId)?.title || 'Removed book');
+
+            const monthName = month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+            bars.push({
+                label: month.toLocaleDateString(undefined, { month: 'short' }),
+                value: titles.length,
+                tooltip: titles.length > 0 ? `${monthName}: ${titles.join(', ')}` : `${monthName}: no books finished`
+            });
+        }
+        return bars;
+    }
+
+    // A column of days for each week, darker the longer the reading on that day
+    private renderHeatmap(el: HTMLElement, stats: ReadingStats) {
+        const heatmapEl = el.createDiv({ cls: 'ebook-statistics-heatmap' });
+        const today = new Date();
+        const thisWeek = getWeekStart(today);
+
+        for (let week = HEATMAP_WEEKS - 1; week >= 0; week--) {
+            const weekEl = heatmapEl.createDiv({ cls: 'ebook-statistics-heatmap-week' });
+            for (let day = 0; day < 7; day++) {
+                const date = new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - week * 7 + day);
+                if (date > today) break;
+
+                const minutes = stats.days.get(getDayKey(date.getTime())) || 0;
+                const level = HEATMAP_LEVELS.filter(threshold => minutes >= threshold).length;
+                weekEl.createDiv({
+                    cls: `ebook-statistics-heatmap-day ebook-statistics-level-${level}`,
+                    attr: { 'aria-label': `${date.toLocaleDateString()}: ${formatMinutes(minutes)}` }
+                });
+            }
+        }
+    }
+
+    private renderBooks(el: HTMLElement, stats: ReadingStats) {
+        const listEl = el.createDiv({ cls: 'ebook-statistics-books' });
+
+        stats.books.forEach(entry => {
+            const book = this.plugin.library.getBook(entry.bookId);
+            const rowEl = listEl.createDiv({ cls: 'ebook-statistics-book' });
+
+            const titleEl = rowEl.createDiv({ cls: 'ebook-statistics-book-title', text: book?.title || 'Removed book' });
+            if (book) {
+                titleEl.addClass('is-clickable');
+                titleEl.addEventListener('click', () => {
+                    this.plugin.openBookInReader(book);
+                });
+            }
+
+            const sessions = entry.sessions === 1 ? '1 session' : `${entry.sessions} sessions`;
+            const progress = book ? ` · ${Math.round(book.progress)}%` : '';
+            rowEl.createDiv({
+                cls: 'ebook-statistics-book-details',
+                text: `${sessions}${progress} · last read ${new Date(entry.lastRead).toLocaleDateString()}`
+            });
+            rowEl.createDiv({ cls: 'ebook-statistics-book-time', text: formatMinutes(entry.minutes) });
+        });
+    }
+}
+
+// Reading time, where no reading at all shows as such rather than rounding up to a minute
+function formatMinutes(minutes: number): string {
+    return minutes > 0 ? formatReadingTime(minutes) : '0 min';
+}
@@ -1,16 +1,21 @@
 import EbookReaderPlugin from './main';
 import { Book, Collection } from './libraryManager';
 import { ReadingState } from './readerView';
+import { ReadingSpeedData } from './readingSpeed';
+import { ReadingSession } from './readingSessions';
 
 interface StorageData {
     books?: Book[];
     collections?: Collection[];
     readingStates?: Record<string, ReadingState>;
+    readingSpeed?: ReadingSpeedData;
+    readingSessions?: Record<string, ReadingSession[]>;
 }
 
 export class LocalStorageManager {
     private plugin: EbookReaderPlugin;
     private readonly LAST_READ_BOOK_KEY = 'ebook-reader-last-book';
+    private writeQueue: Promise<void> = Promise.resolve();
 
     constructor(plugin: EbookReaderPlugin) {
         this.plugin = plugin;
@@ -20,16 +25,18 @@ export class LocalStorageManager {
      * Save the library of books to local storage
      */
     async saveBooks(books: Book[]): Promise<void> {
-        const data = await this.loadAllData();
-        data.books = books;
-        await this.saveAllData(data);
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            data.books = books;
+            await this.saveAllData(data);
+        });
     }
 
     /**
      * Load the library of books from local storage
      */
     async getBooks(): Promise<Book[] | null> {
-        const data = await this.loadAllData();
+        const data = await this.readData();
         return data.books || null;
     }
 
@@ -37,16 +44,18 @@ export class LocalStorageManager {
      * Save collections to local storage
      */
     async saveCollections(collections: Collection[]): Promise<void> {
-        const data = await this.loadAllData();
-        data.collections = collections;
-        await this.saveAllData(data);
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            data.collections = collections;
+            await this.saveAllData(data);
+        });
     }
 
     /**
      * Load collections from local storage
      */
     async getCollections(): Promise<Collection[] | null> {
-        const data = await this.loadAllData();
+        const data = await this.readData();
         return data.collections || null;
     }
 
@@ -54,32 +63,115 @@ export class LocalStorageManager {
      * Save reading state for a specific book
      */
     async saveReadingState(bookId: string, state: ReadingState): Promise<void> {
-        const data = await this.loadAllData();
-        
-        if (!data.readingStates) {
-            data.readingStates = {};
-        }
-        
-        data.readingStates[bookId] = state;
-        await this.saveAllData(data);
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            
+            if (!data.readingStates) {
+                data.readingStates = {};
+            }
+            
+            data.readingStates[bookId] = state;
+            await this.saveAllData(data);
+        });
     }
 
     /**
      * Get reading state for a specific book
      */
     async getReadingState(bookId: string): Promise<ReadingState | null> {
-        const data = await this.loadAllData();
+        const data = await this.readData();
         return data.readingStates?.[bookId] || null;
     }
 
+    /**
+     * Save the measured reading speed
+     */
+    async saveReadingSpeed(speed: ReadingSpeedData): Promise<void> {
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            data.readingSpeed = speed;
+            await this.saveAllData(data);
+        });
+    }
+
+    /**
+     * Get the measured reading speed
+     */
+    async getReadingSpeed(): Promise<ReadingSpeedData | null> {
+        const data = await this.readData();
+        return data.readingSpeed || null;
+    }
+
+    /**
+     * Save a reading session for a book, replacing the earlier save of a session still in progress
+     */
+    async saveReadingSession(bookId: string, session: ReadingSession): Promise<void> {
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            
+            if (!data.readingSessions) {
+                data.readingSessions = {};
+            }
+            
+            const sessions = (data.readingSessions[bookId] || []).filter(saved => saved.start !== session.start);
+            sessions.push(session);
+            data.readingSessions[bookId] = sessions;
+            await this.saveAllData(data);
+        });
+    }
+
+    /**
+     * Get the reading sessions of a book
+     */
+    async getReadingSessions(bookId: string): Promise<ReadingSession[]> {
+        const data = await this.readData();
+        return data.readingSessions?.[bookId] || [];
+    }
+
+    /**
+     * Get the reading sessions of every book
+     */
+    async getAllReadingSessions(): Promise<Record<string, ReadingSession[]>> {
+        const data = await this.readData();
+        return data.readingSessions || {};
+    }
+
     /**
      * Get all reading states
      */
     private async getAllReadingStates(): Promise<Record<string, ReadingState>> {
-        const data = await this.loadAllData();
+        const data = await this.readData();
         return data.readingStates || {};
     }
 
+    /**
+     * Save the plugin settings next to the library and reading data
+     */
+    async saveSettings(settings: object): Promise<void> {
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            await this.saveAllData({ ...data, ...settings });
+        });
+    }
+
+    /**
+     * Run a change to the stored data once the changes before it have finished. Each change loads,
+     * modifies and saves all of the data, so two running at once would undo one another.
+     */
+    private queueWrite<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.writeQueue.then(write);
+        this.writeQueue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    /**
+     * Load all data from storage, including the changes still waiting to be written
+     */
+    private async readData(): Promise<StorageData> {
+        await this.writeQueue;
+        return this.loadAllData();
+    }
+
     /**
      * Load all data from storage
      */
@@ -122,29 +214,36 @@ export class LocalStorageManager {
      * Delete all reading data for a book
      */
     async deleteBookData(bookId: string): Promise<void> {
-        const data = await this.loadAllData();
-        
-        if (data.readingStates && data.readingStates[bookId]) {
-            delete data.readingStates[bookId];
-            await this.saveAllData(data);
-        }
-        
-        // Clear last read book if it matches
-        if (this.getLastReadBook() === bookId) {
-            localStorage.removeItem(this.LAST_READ_BOOK_KEY);
-        }
+        await this.queueWrite(async () => {
+            const data = await this.loadAllData();
+            
+            const hasState = data.readingStates && data.readingStates[bookId];
+            const hasSessions = data.readingSessions && data.readingSessions[bookId];
+            if (hasState || hasSessions) {
+                delete data.readingStates?.[bookId];
+                delete data.readingSessions?.[bookId];
+                await this.saveAllData(data);
+            }
+            
+            // Clear last read book if it matches
+            if (this.getLastReadBook() === bookId) {
+                localStorage.removeItem(this.LAST_READ_BOOK_KEY);
+            }
+        });
     }
 
     /**
      * Export all data as JSON
      */
     async exportData(): Promise<string> {
-        const data = await this.loadAllData();
+        const data = await this.readData();
         
         const exportData = {
             books: data.books || [],
             collections: data.collections || [],
             readingStates: data.readingStates || {},
+            readingSpeed: data.readingSpeed,
+            readingSessions: data.readingSessions || {},
             version: 1  // For future compatibility
         };
         
@@ -168,10 +267,12 @@ export class LocalStorageManager {
             const data: StorageData = {
                 books: importedData.books,
                 collections: importedData.collections,
-                readingStates: importedData.readingStates
+                readingStates: importedData.readingStates,
+                readingSpeed: importedData.readingSpeed,
+                readingSessions: importedData.readingSessions || {}
             };
             
-            await this.saveAllData(data);
+            await this.queueWrite(() => this.saveAllData(data));
             
             return true;
         } catch (error) {
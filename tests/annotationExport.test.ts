@@ -0,0 +1,53 @@
+import { DEFAULT_EXPORT_TEMPLATE, MANAGED_SECTION_END, MANAGED_SECTION_START, renderTemplate, updateManagedSection } from '../annotationExport';
+
+const NOTE = 'First paragraph\nstill the first.\n\n- a list in the note';
+
+describe('renderTemplate', () => {
+    test('indents notes of several lines to stay in their list item', () => {
+        const rendered = renderTemplate('{{#notes}}- Note: {{text}}\n{{/notes}}', { notes: [{ text: NOTE }] });
+        expect(rendered).toBe('- Note: First paragraph\n  still the first.\n\n  - a list in the note\n');
+    });
+
+    test('keeps quote markers on every line of a quoted value', () => {
+        expect(renderTemplate('> {{text}}', { text: 'one\n\ntwo' })).toBe('> one\n>\n> two');
+    });
+
+    test('leaves values outside lists and quotes as they are', () => {
+        expect(renderTemplate('**Note**: {{text}}', { text: NOTE })).toBe(`**Note**: ${NOTE}`);
+    });
+
+    test('keeps notes inside their list items in the default template', () => {
+        const rendered = renderTemplate(DEFAULT_EXPORT_TEMPLATE, {
+            chapters: [{
+                title: 'Chapter One',
+                highlights: [{ text: 'It was a bright cold day', color: 'yellow', date: '2024-01-01', notes: [{ text: NOTE, tags: '' }] }],
+                notes: [{ text: NOTE, quote: 'the clocks', tags: '#idea' }]
+            }],
+            bookmarks: []
+        });
+        expect(rendered).toContain('- Note: First paragraph\n  still the first.\n\n  - a list in the note');
+        expect(rendered).toContain('- **Note** on "the clocks": First paragraph\n  still the first.\n\n  - a list in the note #idea');
+    });
+});
+
+describe('updateManagedSection', () => {
+    const managed = (section: string) => `${MANAGED_SECTION_START}\n${section}\n${MANAGED_SECTION_END}`;
+
+    test('replaces the section and keeps what was written around it', () => {
+        const content = `# My thoughts\n\n${managed('old annotations')}\n\n## Later notes\n`;
+        expect(updateManagedSection(content, 'new annotations\n')).toBe(`# My thoughts\n\n${managed('new annotations')}\n\n## Later notes\n`);
+    });
+
+    test('adds the section to the end of a note without one', () => {
+        expect(updateManagedSection('# My thoughts\n\n', 'annotations')).toBe(`# My thoughts\n\n${managed('annotations')}\n`);
+    });
+
+    test('fills an empty note with the section', () => {
+        expect(updateManagedSection('', 'annotations')).toBe(`${managed('annotations')}\n`);
+    });
+
+    test('ignores an end marker that comes before the start marker', () => {
+        const content = `${MANAGED_SECTION_END}\nwritten by hand\n${managed('old')}`;
+        expect(updateManagedSection(content, 'new')).toBe(`${MANAGED_SECTION_END}\nwritten by hand\n${managed('new')}`);
+    });
+});
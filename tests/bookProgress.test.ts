@@ -0,0 +1,65 @@
+import { getBookProgress, getProgressLocation } from '../bookProgress';
+
+const ITEMS = ['cover', 'preface', 'chapter1', 'chapter2'];
+
+describe('getBookProgress', () => {
+    test('weighs each item by its length of text', () => {
+        const lengths = { cover: 0, preface: 100, chapter1: 300, chapter2: 600 };
+        expect(getBookProgress(ITEMS, lengths, 'preface', 0)).toBe(0);
+        expect(getBookProgress(ITEMS, lengths, 'chapter1', 50)).toBe(25);
+        expect(getBookProgress(ITEMS, lengths, 'chapter2', 0)).toBe(40);
+    });
+
+    test('counts items not measured yet as the average of the measured ones', () => {
+        const lengths = { cover: 0, preface: 100, chapter1: 500 };
+        // The average of 0, 100 and 500 is 200, standing in for chapter2
+        expect(getBookProgress(ITEMS, lengths, 'chapter2', 0)).toBe(75);
+    });
+
+    test('counts items equally when none has been measured', () => {
+        expect(getBookProgress(ITEMS, {}, 'chapter1', 50)).toBe(62.5);
+    });
+
+    test('counts items equally in a book of images only', () => {
+        const lengths = { cover: 0, preface: 0, chapter1: 0, chapter2: 0 };
+        expect(getBookProgress(ITEMS, lengths, 'chapter1', 0)).toBe(50);
+    });
+
+    test('reaches 100% at the end of the last item', () => {
+        const lengths = { cover: 0, preface: 100, chapter1: 300, chapter2: 600 };
+        expect(getBookProgress(ITEMS, lengths, 'chapter2', 100)).toBe(100);
+        expect(getBookProgress(ITEMS, lengths, 'chapter2', 120)).toBe(100);
+    });
+
+    test('is 0 for an item outside the spine', () => {
+        expect(getBookProgress(ITEMS, {}, 'missing', 50)).toBe(0);
+    });
+});
+
+describe('getProgressLocation', () => {
+    const lengths = { cover: 0, preface: 100, chapter1: 300, chapter2: 600 };
+
+    test('finds the item and position at a share of the book', () => {
+        expect(getProgressLocation(ITEMS, lengths, 25)).toEqual({ itemId: 'chapter1', position: 50 });
+        expect(getProgressLocation(ITEMS, lengths, 40)).toEqual({ itemId: 'chapter2', position: 0 });
+    });
+
+    test('skips items without text at the start', () => {
+        expect(getProgressLocation(ITEMS, lengths, 0)).toEqual({ itemId: 'preface', position: 0 });
+    });
+
+    test('puts 100% at the end of the last item with text', () => {
+        expect(getProgressLocation([...ITEMS, 'colophon'], { ...lengths, colophon: 0 }, 100)).toEqual({ itemId: 'chapter2', position: 100 });
+    });
+
+    test('is the reverse of getBookProgress', () => {
+        const progress = getBookProgress(ITEMS, lengths, 'chapter1', 30);
+        const location = getProgressLocation(ITEMS, lengths, progress);
+        expect(location?.itemId).toBe('chapter1');
+        expect(location?.position).toBeCloseTo(30);
+    });
+
+    test('is null for a book without items', () => {
+        expect(getProgressLocation([], {}, 50)).toBeNull();
+    });
+});
@@ -0,0 +1,43 @@
+import { BookSearch, createSearchPattern, findMatches } from '../bookSearch';
+import { EpubContent } from '../epubParser';
+import { rangeFromOffsets } from '../textAnchor';
+import { buildEpub, renderChapter } from './helpers';
+
+const CHAPTER = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>Chapter One</title><style>p { color: black; }</style></head>
+<body>
+  <p>The colour of the sky.</p>
+  <style>.red { color: red; }</style>
+  <p>A red <em>door</em> and a red window.</p>
+</body>
+</html>`;
+
+let epubContent: EpubContent;
+
+beforeAll(async () => {
+    epubContent = await buildEpub({ chap01: CHAPTER });
+});
+
+afterEach(() => {
+    document.body.innerHTML = '';
+});
+
+describe('BookSearch', () => {
+    test('counts offsets in the text of the rendered chapter', async () => {
+        const text = await new BookSearch(epubContent).getText('chap01');
+        const root = renderChapter(CHAPTER);
+        expect(text.length).toBe((root.textContent || '').length);
+
+        const matches = findMatches(text, createSearchPattern('red', { caseSensitive: false, wholeWord: true }) as RegExp,
+            { caseSensitive: false, wholeWord: true }, 10);
+        expect(matches.map(match => rangeFromOffsets(root, match.start, match.end)?.toString())).toEqual(['red', 'red']);
+        expect(rangeFromOffsets(root, matches[0].start, matches[0].end + ' door'.length)?.toString()).toBe('red door');
+    });
+
+    test('does not match the text of style elements in the body', async () => {
+        const text = await new BookSearch(epubContent).getText('chap01');
+        expect(findMatches(text, createSearchPattern('color', { caseSensitive: false, wholeWord: false }) as RegExp,
+            { caseSensitive: false, wholeWord: false }, 10)).toEqual([]);
+    });
+});
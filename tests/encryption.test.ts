@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto';
+import { ADOBE_OBFUSCATION, IDPF_OBFUSCATION, deobfuscateFont, getAdobeKey, getIdpfKey } from '../encryption';
+
+const UUID = 'urn:uuid:0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0';
+
+// A stand-in for a font file, with bytes that differ from position to position
+function generateFont(length: number): Uint8Array {
+    const font = new Uint8Array(length);
+    let seed = 42;
+    for (let i = 0; i < length; i++) {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        font[i] = seed >> 16 & 0xff;
+    }
+    return font;
+}
+
+// Obfuscate the way a publishing tool does, independently of the code under test
+function obfuscate(font: Uint8Array, key: Uint8Array, length: number): Uint8Array {
+    return font.map((byte, i) => i < length ? byte ^ key[i % key.length] : byte);
+}
+
+describe('IDPF font obfuscation', () => {
+    const identifier = ` ${UUID}\n\t`;
+    const key = new Uint8Array(createHash('sha1').update(UUID).digest());
+
+    test('derives the key from the SHA-1 of the identifier without whitespace', async () => {
+        expect(await getIdpfKey(identifier)).toEqual(key);
+    });
+
+    test('round-trips the first 1040 bytes', async () => {
+        const font = generateFont(3000);
+        const obfuscated = obfuscate(font, key, 1040);
+        expect(obfuscated).not.toEqual(font);
+        expect(obfuscated.slice(1040)).toEqual(font.slice(1040));
+
+        const metadata = { identifier };
+        expect(await deobfuscateFont(obfuscated, IDPF_OBFUSCATION, metadata)).toEqual(font);
+        expect(await deobfuscateFont(font, IDPF_OBFUSCATION, metadata)).toEqual(obfuscated);
+    });
+
+    test('handles fonts shorter than the obfuscated length', async () => {
+        const font = generateFont(500);
+        const obfuscated = obfuscate(font, key, 1040);
+        expect(await deobfuscateFont(obfuscated, IDPF_OBFUSCATION, { identifier })).toEqual(font);
+    });
+
+    test('leaves the font alone without an identifier', async () => {
+        const font = generateFont(100);
+        expect(await deobfuscateFont(font, IDPF_OBFUSCATION, {})).toEqual(font);
+    });
+});
+
+describe('Adobe font obfuscation', () => {
+    const key = new Uint8Array([
+        0x0f, 0x1e, 0x2d, 0x3c, 0x4b, 0x5a, 0x69, 0x78,
+        0x87, 0x96, 0xa5, 0xb4, 0xc3, 0xd2, 0xe1, 0xf0
+    ]);
+
+    test('takes the 16-byte key from the UUID identifier', () => {
+        expect(getAdobeKey({ identifier: UUID })).toEqual(key);
+        expect(getAdobeKey({
+            identifier: 'isbn-9780000000000',
+            identifiers: [{ value: UUID, type: 'uuid' }]
+        })).toEqual(key);
+        expect(getAdobeKey({ identifier: 'isbn-9780000000000' })).toBeNull();
+    });
+
+    test('round-trips the first 1024 bytes', async () => {
+        const font = generateFont(3000);
+        const obfuscated = obfuscate(font, key, 1024);
+        expect(obfuscated).not.toEqual(font);
+        expect(obfuscated.slice(1024)).toEqual(font.slice(1024));
+
+        const metadata = { identifier: UUID };
+        expect(await deobfuscateFont(obfuscated, ADOBE_OBFUSCATION, metadata)).toEqual(font);
+        expect(await deobfuscateFont(font, ADOBE_OBFUSCATION, metadata)).toEqual(obfuscated);
+    });
+});
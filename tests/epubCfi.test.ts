@@ -0,0 +1,192 @@
+import { compareCfi, createCfi, createCfiFromTextOffset, getCfiSpineItem, resolveCfi } from '../epubCfi';
+import { wrapRange } from '../textAnchor';
+import { renderChapter } from './helpers';
+
+// The second spine item of a book, with whitespace between elements and a style element in the body
+const CHAPTER = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head>
+  <title>Chapter One</title>
+  <link rel="stylesheet" href="style.css"/>
+</head>
+<body id="chapter1">
+  <h1 id="title">Chapter One</h1>
+  <p id="p1">It was a <em>bright</em> cold day in April.</p>
+  <p>And the clocks were striking thirteen.</p>
+  <style>em { color: red; }</style>
+  <p id="p3">Winston Smith slipped quickly through the glass doors.</p>
+  <div/>
+</body>
+</html>`;
+
+const SPINE_INDEX = 1;
+const ITEM_ID = 'chap02';
+
+function findText(root: Element, text: string): { node: Text; offset: number } {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const offset = node.data.indexOf(text);
+        if (offset !== -1) return { node, offset };
+    }
+    throw new Error(`"${text}" is not in the chapter`);
+}
+
+function highlight(root: Element, text: string) {
+    const { node, offset } = findText(root, text);
+    const range = document.createRange();
+    range.setStart(node, offset);
+    range.setEnd(node, offset + text.length);
+    wrapRange(range, () => {
+        const el = document.createElement('span');
+        el.className = 'ebook-highlight';
+        return el;
+    });
+}
+
+afterEach(() => {
+    document.body.innerHTML = '';
+});
+
+describe('importChapterHtml', () => {
+    test('keeps the body structure, including style elements', () => {
+        const root = renderChapter(CHAPTER);
+        expect(root.getAttribute('data-cfi-step')).toBe('4');
+        expect(root.getAttribute('data-cfi-id')).toBe('chapter1');
+        expect(Array.from(root.children).map(el => el.localName)).toEqual(['h1', 'p', 'p', 'style', 'p', 'div']);
+        expect(root.parentElement?.querySelector('link')).not.toBeNull();
+    });
+});
+
+describe('createCfi and resolveCfi', () => {
+    test('creates the spec CFI for a point in text', () => {
+        const root = renderChapter(CHAPTER);
+        const { node, offset } = findText(root, 'cold');
+        const cfi = createCfi(SPINE_INDEX, ITEM_ID, root, { node, offset });
+
+        expect(cfi).toBe('epubcfi(/6/4[chap02]!/4[chapter1]/4[p1]/3:1)');
+        expect(getCfiSpineItem(cfi || '')).toEqual({ index: SPINE_INDEX, itemId: ITEM_ID });
+    });
+
+    test('counts style elements in the body as steps', () => {
+        const root = renderChapter(CHAPTER);
+        const { node, offset } = findText(root, 'Winston');
+        expect(createCfi(SPINE_INDEX, ITEM_ID, root, { node, offset })).toBe('epubcfi(/6/4[chap02]!/4[chapter1]/10[p3]/1:0)');
+    });
+
+    test('round-trips points and ranges', () => {
+        const root = renderChapter(CHAPTER);
+        const start = findText(root, 'clocks');
+        const end = findText(root, 'quickly');
+        const cfi = createCfi(SPINE_INDEX, ITEM_ID, root, start, { node: end.node, offset: end.offset + 'quickly'.length });
+
+        const range = resolveCfi(cfi || '', root);
+        expect(range?.toString()).toMatch(/^clocks were striking thirteen\.[\s\S]*Winston Smith slipped quickly$/);
+
+        const point = resolveCfi(createCfi(SPINE_INDEX, ITEM_ID, root, start) || '', root);
+        expect(point?.collapsed).toBe(true);
+        expect(point?.startContainer).toBe(start.node);
+        expect(point?.startOffset).toBe(start.offset);
+    });
+
+    test('round-trips an element position', () => {
+        const root = renderChapter(CHAPTER);
+        const p3 = root.querySelector('#p3') as Element;
+        const cfi = createCfi(SPINE_INDEX, ITEM_ID, root, { node: p3, offset: 0 });
+
+        expect(cfi).toBe('epubcfi(/6/4[chap02]!/4[chapter1]/10[p3]/1:0)');
+        expect(resolveCfi(cfi || '', root)?.startContainer).toBe(p3.firstChild);
+    });
+
+    test('skips over highlights, which are not part of the document', () => {
+        const plainRoot = renderChapter(CHAPTER);
+        const target = findText(plainRoot, 'in April');
+        const plainCfi = createCfi(SPINE_INDEX, ITEM_ID, plainRoot, target, { node: target.node, offset: target.offset + 'in April'.length });
+        document.body.innerHTML = '';
+
+        const root = renderChapter(CHAPTER);
+        highlight(root, 'cold day');
+        highlight(root, 'in');
+        const highlighted = findText(root, 'April');
+        const { node: startNode } = findText(root, 'in');
+        const cfi = createCfi(SPINE_INDEX, ITEM_ID, root, { node: startNode, offset: 0 }, { node: highlighted.node, offset: highlighted.offset + 'April'.length });
+
+        expect(cfi).toBe(plainCfi);
+        expect(resolveCfi(cfi || '', root)?.toString()).toBe('in April');
+    });
+
+    test('resolves a CFI created before highlights were added', () => {
+        const root = renderChapter(CHAPTER);
+        const { node, offset } = findText(root, 'April');
+        const cfi = createCfi(SPINE_INDEX, ITEM_ID, root, { node, offset }, { node, offset: offset + 'April'.length }) || '';
+
+        highlight(root, 'bright');
+        highlight(root, 'cold day in');
+        expect(resolveCfi(cfi, root)?.toString()).toBe('April');
+    });
+});
+
+describe('createCfiFromTextOffset', () => {
+    test('creates the spec CFI for a span of text', () => {
+        const root = renderChapter(CHAPTER);
+        const offset = (root.textContent || '').indexOf('clocks');
+        const cfi = createCfiFromTextOffset(SPINE_INDEX, ITEM_ID, root, offset, 'clocks'.length);
+
+        expect(cfi).toBe('epubcfi(/6/4[chap02]!/4[chapter1]/6,/1:8,/1:14)');
+        expect(resolveCfi(cfi || '', root)?.toString()).toBe('clocks');
+    });
+
+    test('counts the text of style elements like the rendered chapter does', () => {
+        const root = renderChapter(CHAPTER);
+        const offset = (root.textContent || '').indexOf('Winston');
+        const cfi = createCfiFromTextOffset(SPINE_INDEX, ITEM_ID, root, offset, 'Winston Smith'.length);
+
+        expect(resolveCfi(cfi || '', root)?.toString()).toBe('Winston Smith');
+    });
+
+    test('round-trips through highlights', () => {
+        const root = renderChapter(CHAPTER);
+        highlight(root, 'bright');
+        const offset = (root.textContent || '').indexOf('cold day');
+        const cfi = createCfiFromTextOffset(SPINE_INDEX, ITEM_ID, root, offset, 'cold day'.length);
+
+        expect(cfi).toBe('epubcfi(/6/4[chap02]!/4[chapter1]/4[p1],/3:1,/3:9)');
+        expect(resolveCfi(cfi || '', root)?.toString()).toBe('cold day');
+    });
+});
+
+describe('compareCfi', () => {
+    test('orders CFIs by reading order', () => {
+        const root = renderChapter(CHAPTER);
+        const at = (text: string) => {
+            const { node, offset } = findText(root, text);
+            return createCfi(SPINE_INDEX, ITEM_ID, root, { node, offset }) || '';
+        };
+
+        const inOrder = [
+            'epubcfi(/6/2[chap01]!/4/2/1:0)',
+            at('Chapter One'),
+            at('bright'),
+            at('cold'),
+            at('April'),
+            at('clocks'),
+            at('Winston'),
+            at('glass'),
+            'epubcfi(/6/6[chap03]!/4/2/1:0)'
+        ];
+
+        const shuffled = [inOrder[5], inOrder[8], inOrder[0], inOrder[3], inOrder[7], inOrder[1], inOrder[6], inOrder[4], inOrder[2]];
+        expect(shuffled.sort(compareCfi)).toEqual(inOrder);
+    });
+
+    test('orders a range by its start and treats equal positions as equal', () => {
+        const root = renderChapter(CHAPTER);
+        const cold = findText(root, 'cold');
+        const point = createCfi(SPINE_INDEX, ITEM_ID, root, cold) || '';
+        const range = createCfi(SPINE_INDEX, ITEM_ID, root, cold, { node: cold.node, offset: cold.offset + 4 }) || '';
+        const later = createCfiFromTextOffset(SPINE_INDEX, ITEM_ID, root, (root.textContent || '').indexOf('April')) || '';
+
+        expect(compareCfi(point, range)).toBe(0);
+        expect(compareCfi(range, later)).toBeLessThan(0);
+        expect(compareCfi(later, range)).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,19 @@
+import { tokenize } from '../fullTextIndex';
+
+// The plugin API only exists inside the app, and tokenizing does not use it
+jest.mock('obsidian', () => ({}), { virtual: true });
+
+describe('tokenize', () => {
+    test('splits text into lowercase words, keeping words of one letter', () => {
+        expect(tokenize('I saw a Cat, 2 times.')).toEqual(['i', 'saw', 'a', 'cat', '2', 'times']);
+    });
+
+    test('splits Chinese and Japanese text into characters', () => {
+        expect(tokenize('吾輩は猫である')).toEqual(['吾', '輩', 'は', '猫', 'で', 'あ', 'る']);
+        expect(tokenize('读书')).toEqual(['读', '书']);
+    });
+
+    test('ends a word where Chinese or Japanese text starts', () => {
+        expect(tokenize('EPUB形式')).toEqual(['epub', '形', '式']);
+    });
+});
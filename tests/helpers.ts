@@ -0,0 +1,48 @@
+import * as JSZip from 'jszip';
+import { CFI_ROOT_CLASS, importChapterHtml } from '../epubCfi';
+import { EpubContent, EpubManifestItem } from '../epubParser';
+
+/**
+ * Render a chapter the way the reader does, by putting the imported nodes into the page. Returns the
+ * chapter body, which CFIs and text offsets are counted from.
+ */
+export function renderChapter(html: string): Element {
+    const container = document.createElement('div');
+    container.appendChild(importChapterHtml(html));
+    document.body.appendChild(container);
+
+    const root = container.querySelector(`.${CFI_ROOT_CLASS}`);
+    if (!root) throw new Error('The chapter has no body');
+    return root;
+}
+
+/**
+ * Open a book with the given chapters as its spine, keyed by manifest ID. The package is given
+ * directly rather than parsed from an OPF file, as jsdom does not support the namespace selectors
+ * the metadata is read with.
+ */
+export async function buildEpub(chapters: Record<string, string>): Promise<EpubContent> {
+    const zip = new JSZip();
+    const manifest: Record<string, EpubManifestItem> = {};
+    Object.keys(chapters).forEach(id => {
+        const href = `OEBPS/${id}.xhtml`;
+        zip.file(href, chapters[id]);
+        manifest[id] = { id, href, mediaType: 'application/xhtml+xml', properties: [] };
+    });
+
+    // Read back from the archive, as books are
+    const archive = await JSZip.loadAsync(await zip.generateAsync({ type: 'uint8array' }));
+    return new EpubContent(archive, {
+        metadata: { title: 'Test Book' },
+        spine: {
+            items: Object.keys(chapters),
+            itemRefs: Object.keys(chapters).map(idref => ({ idref, linear: true, properties: [] })),
+            toc: '',
+            pageProgressionDirection: 'default'
+        },
+        manifest,
+        rendition: { layout: 'reflowable', orientation: 'auto', spread: 'auto' },
+        basePath: 'OEBPS/',
+        encryption: {}
+    }, []);
+}
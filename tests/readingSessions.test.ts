@@ -0,0 +1,68 @@
+import { ReadingSession, computeReadingStats, getWeekStart } from '../readingSessions';
+
+// The plugin API only exists inside the app, and the statistics do not use it
+jest.mock('obsidian', () => ({}), { virtual: true });
+
+// A session starting at a local time, with its reading time in minutes
+function session(start: Date, minutes: number, startProgress = 0, endProgress = 0): ReadingSession {
+    const end = start.getTime() + minutes * 60000;
+    return { start: start.getTime(), end, activeTime: minutes * 60000, chapters: ['chapter1'], startProgress, endProgress };
+}
+
+// Wednesday 10 January 2024, at noon
+const NOW = new Date(2024, 0, 10, 12);
+
+describe('computeReadingStats', () => {
+    test('adds up the reading time of today, this week and in total', () => {
+        const stats = computeReadingStats({
+            book1: [session(new Date(2024, 0, 10, 8), 20), session(new Date(2024, 0, 8, 21), 15)],
+            book2: [session(new Date(2024, 0, 3, 21), 40)]
+        }, NOW);
+
+        expect(stats.today).toBe(20);
+        expect(stats.thisWeek).toBe(35);
+        expect(stats.total).toBe(75);
+        expect(stats.books.map(book => [book.bookId, book.minutes, book.sessions])).toEqual([['book2', 40, 1], ['book1', 35, 2]]);
+    });
+
+    test('starts the week at midnight on Monday', () => {
+        const stats = computeReadingStats({
+            book1: [session(new Date(2024, 0, 7, 23, 30), 20), session(new Date(2024, 0, 8, 0, 10), 10)]
+        }, NOW);
+        expect(stats.thisWeek).toBe(10);
+
+        expect(getWeekStart(new Date(2024, 0, 14, 22))).toEqual(new Date(2024, 0, 8));
+        expect(getWeekStart(new Date(2024, 0, 8, 0, 0, 1))).toEqual(new Date(2024, 0, 8));
+    });
+
+    test('counts a streak of days up to today', () => {
+        const stats = computeReadingStats({
+            book1: [8, 9, 10].map(day => session(new Date(2024, 0, day, 20), 10)).concat(session(new Date(2024, 0, 6, 20), 10))
+        }, NOW);
+        expect(stats.streak).toBe(3);
+    });
+
+    test('keeps the streak going when there is no reading yet today', () => {
+        const stats = computeReadingStats({
+            book1: [8, 9].map(day => session(new Date(2024, 0, day, 20), 10))
+        }, NOW);
+        expect(stats.streak).toBe(2);
+    });
+
+    test('ends the streak after a day without reading', () => {
+        const stats = computeReadingStats({ book1: [session(new Date(2024, 0, 8, 20), 10)] }, NOW);
+        expect(stats.streak).toBe(0);
+    });
+
+    test('counts a book as finished in the session that reached the end', () => {
+        const finishing = session(new Date(2023, 11, 31, 23), 90, 80, 100);
+        const stats = computeReadingStats({
+            book1: [session(new Date(2023, 11, 30, 20), 60, 0, 80), finishing, session(new Date(2024, 0, 9, 20), 10, 100, 100)],
+            book2: [session(new Date(2024, 0, 9, 20), 10, 0, 40)]
+        }, NOW);
+
+        // The session started in December and ended in January, so the book was finished in January
+        expect(stats.finished).toEqual([{ bookId: 'book1', date: finishing.end }]);
+        expect(new Date(stats.finished[0].date).getMonth()).toBe(0);
+    });
+});
@@ -0,0 +1,202 @@
+// Characters of context kept on each side of a quote
+const CONTEXT_LENGTH = 32;
+
+// How much longer or shorter edited text may be and still be re-anchored, as a fraction of the quote
+const MAX_LENGTH_CHANGE = 0.5;
+
+// Matches of a search string considered when re-anchoring
+const MAX_CANDIDATES = 100;
+
+/**
+ * Where a piece of text sits in a chapter: a position selector of character offsets into the
+ * chapter's text, and a quote selector of the text itself with some context on either side
+ */
+export interface TextAnchor {
+    start: number;
+    end: number;
+    exact: string;
+    prefix: string;
+    suffix: string;
+}
+
+/**
+ * Describe the text between two offsets of a chapter's text
+ */
+export function createTextAnchor(text: string, start: number, end: number): TextAnchor {
+    return {
+        start,
+        end,
+        exact: text.substring(start, end),
+        prefix: text.substring(Math.max(0, start - CONTEXT_LENGTH), start),
+        suffix: text.substring(end, end + CONTEXT_LENGTH)
+    };
+}
+
+/**
+ * Describe the text a DOM range covers within root
+ */
+export function describeRange(root: Node, range: Range): TextAnchor | null {
+    const start = getTextOffset(root, range.startContainer, range.startOffset);
+    const end = getTextOffset(root, range.endContainer, range.endOffset);
+    if (start === null || end === null || end <= start) return null;
+
+    return createTextAnchor(root.textContent || '', start, end);
+}
+
+/**
+ * Find an anchor's text in a chapter's text. When the book has changed, the quote is looked
+ * for elsewhere, and failing that an edited version of it between its start, end and context.
+ */
+export function anchorText(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+    const { exact } = anchor;
+    if (!exact) return null;
+
+    if (text.substring(anchor.start, anchor.end) === exact) {
+        return { start: anchor.start, end: anchor.end };
+    }
+
+    // The same quote elsewhere, preferring the one with the most matching context
+    let best: { start: number; score: number } | null = null;
+    for (const start of findAll(text, exact)) {
+        const score = commonSuffixLength(text.substring(0, start), anchor.prefix) +
+            commonPrefixLength(text.substring(start + exact.length), anchor.suffix) -
+            Math.abs(start - anchor.start) / Math.max(text.length, 1);
+        if (!best || score > best.score) {
+            best = { start, score };
+        }
+    }
+    if (best) {
+        return { start: best.start, end: best.start + exact.length };
+    }
+
+    return anchorEditedText(text, anchor);
+}
+
+/**
+ * Create a range covering the text between two offsets of root's text
+ */
+export function rangeFromOffsets(root: Node, start: number, end: number): Range | null {
+    const range = document.createRange();
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let offset = 0;
+    let started = false;
+
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        const length = node.data.length;
+        if (!started && start < offset + length) {
+            range.setStart(node, start - offset);
+            started = true;
+        }
+        if (started && end <= offset + length) {
+            range.setEnd(node, end - offset);
+            return range;
+        }
+        offset += length;
+    }
+
+    return null;
+}
+
+/**
+ * Wrap each piece of text in a range in its own element, splitting text nodes at the range's ends
+ */
+export function wrapRange(range: Range, createWrapper: () => HTMLElement): HTMLElement[] {
+    const ancestor = range.commonAncestorContainer;
+    const textNodes: Text[] = [];
+    if (ancestor.nodeType === Node.TEXT_NODE) {
+        textNodes.push(ancestor as Text);
+    } else {
+        const walker = document.createTreeWalker(ancestor, NodeFilter.SHOW_TEXT);
+        for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+            if (range.intersectsNode(node)) textNodes.push(node);
+        }
+    }
+
+    // Work out the pieces before splitting any nodes, which moves the range's ends
+    const pieces = textNodes.map(node => ({
+        node,
+        start: node === range.startContainer ? range.startOffset : 0,
+        end: node === range.endContainer ? range.endOffset : node.data.length
+    })).filter(piece => piece.end > piece.start && !isStructuralWhitespace(piece.node));
+
+    return pieces.map(piece => {
+        let target = piece.node;
+        if (piece.end < target.data.length) target.splitText(piece.end);
+        if (piece.start > 0) target = target.splitText(piece.start);
+
+        const wrapper = createWrapper();
+        target.parentNode?.insertBefore(wrapper, target);
+        wrapper.appendChild(target);
+        return wrapper;
+    });
+}
+
+// Number of characters of text before a DOM position within root
+function getTextOffset(root: Node, node: Node, offset: number): number | null {
+    if (!root.contains(node)) return null;
+
+    const range = document.createRange();
+    range.setStart(root, 0);
+    range.setEnd(node, offset);
+    return range.toString().length;
+}
+
+// Whitespace between table rows or list items, where an inline wrapper is not allowed
+function isStructuralWhitespace(node: Text): boolean {
+    return !node.data.trim() && /^(table|thead|tbody|tfoot|tr|colgroup|ul|ol|dl)$/i.test(node.parentElement?.localName || '');
+}
+
+// Locate text whose middle was edited: between its old beginning and end, or between its old context
+function anchorEditedText(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+    const { exact } = anchor;
+    const edge = Math.min(CONTEXT_LENGTH, Math.floor(exact.length / 3));
+
+    const starts: number[] = [];
+    const ends: number[] = [];
+    if (edge >= 4) {
+        starts.push(...findAll(text, exact.substring(0, edge)));
+        ends.push(...findAll(text, exact.substring(exact.length - edge)).map(index => index + edge));
+    }
+    if (anchor.prefix.length >= 8 && anchor.suffix.length >= 8) {
+        starts.push(...findAll(text, anchor.prefix).map(index => index + anchor.prefix.length));
+        ends.push(...findAll(text, anchor.suffix));
+    }
+
+    // The pair closest to the quote's length, then to its old position
+    let best: { start: number; end: number; score: number } | null = null;
+    for (const start of starts) {
+        for (const end of ends) {
+            const lengthChange = Math.abs(end - start - exact.length);
+            if (end <= start || lengthChange > exact.length * MAX_LENGTH_CHANGE) continue;
+
+            const score = lengthChange + Math.abs(start - anchor.start) / Math.max(text.length, 1);
+            if (!best || score < best.score) {
+                best = { start, end, score };
+            }
+        }
+    }
+
+    return best ? { start: best.start, end: best.end } : null;
+}
+
+function findAll(text: string, search: string): number[] {
+    const indexes: number[] = [];
+    if (!search) return indexes;
+
+    for (let index = text.indexOf(search); index !== -1 && indexes.length < MAX_CANDIDATES; index = text.indexOf(search, index + 1)) {
+        indexes.push(index);
+    }
+    return indexes;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) length++;
+    return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+    return length;
+}